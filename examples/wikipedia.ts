@@ -2,7 +2,8 @@
 import wikipedia from "wikipedia";
 import { ZodCommand, z } from "../src";
 
-// Create the CLI instance with metadata
+// Create the CLI instance with metadata and basic settings for this example.
+// configure() returns the instance with handler `config` typed from the schema.
 const cli = new ZodCommand({
 	name: "wikipedia-cli",
 	description: "A CLI tool to search and retrieve information from Wikipedia",
@@ -11,10 +12,7 @@ const cli = new ZodCommand({
 	homepage: "https://github.com/timmikeladze/wikipedia-cli",
 	license: "MIT",
 	repository: "https://github.com/timmikeladze/wikipedia-cli",
-});
-
-// Configure basic settings for this example
-cli.configure({
+}).configure({
 	schema: z.object({
 		language: z.string().default("en"),
 		maxResults: z.number().default(5),
@@ -73,12 +71,10 @@ cli
 				.describe("Maximum number of results to return"),
 		}),
 	)
+	.positional(["query"])
+	.configDefaults({ language: "language", limit: "maxResults" })
 	.action(async ({ parsedInput, context, config }) => {
-		const {
-			query,
-			language = (config as { language: string }).language,
-			limit = (config as { maxResults: number }).maxResults,
-		} = parsedInput as {
+		const { query, language, limit } = parsedInput as {
 			query: string;
 			language: string;
 			limit: number;
@@ -95,7 +91,7 @@ cli
 			});
 
 			// Debug: Log the actual structure
-			if ((config as { verbose: boolean }).verbose) {
+			if (config.verbose) {
 				console.log(
 					"Raw search results:",
 					JSON.stringify(searchResults, null, 2),
@@ -169,12 +165,12 @@ cli
 				.describe("Language code (e.g., 'en', 'fr', 'es')"),
 		}),
 	)
-	.action(async ({ parsedInput, context, config }) => {
-		const { count = 1, language = (config as { language: string }).language } =
-			parsedInput as {
-				count: number;
-				language: string;
-			};
+	.configDefaults({ language: "language" })
+	.action(async ({ parsedInput, context }) => {
+		const { count = 1, language } = parsedInput as {
+			count: number;
+			language: string;
+		};
 		context.logger.info(`Fetching ${count} random Wikipedia articles`);
 
 		try {
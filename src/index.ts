@@ -1,22 +1,58 @@
 #!/usr/bin/env node
+import * as childProcess from "node:child_process";
 import * as fs from "node:fs";
+import * as http from "node:http";
+import { createRequire } from "node:module";
+import * as os from "node:os";
 import * as path from "node:path";
+import * as readline from "node:readline";
+import { Writable } from "node:stream";
+import { pathToFileURL } from "node:url";
+import * as zlib from "node:zlib";
 import chalk from "chalk";
 import * as yaml from "js-yaml";
+import { TomlDate, TomlError, parse as parseToml } from "smol-toml";
 import { z } from "zod";
 
 // Disable 'any' type warnings for this file as we're focusing on fixing downlevelIteration
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 // Core types
-export type CommandHandler<T, R = unknown> = (args: {
+export type CommandHandler<T, R = unknown, C = unknown> = (args: {
 	parsedInput: T;
-	context: CommandContext;
-	config: unknown;
+	context: CommandContext<C>;
+	/** Resolved config, typed from the schema passed to `configure()` */
+	config: C;
 }) => Promise<R> | R;
 
-export interface CommandContext {
+/**
+ * Dotted paths into a config type, e.g. `"database.host"`. Any string is
+ * accepted while the config is untyped.
+ */
+export type ConfigKey<C, Depth extends number = 5> = unknown extends C
+	? string
+	: C extends readonly unknown[] | Date
+		? never
+		: C extends object
+			? {
+					[K in keyof C & string]:
+						| K
+						| ([Depth] extends [0]
+								? never
+								: `${K}.${ConfigKey<NonNullable<C[K]>, PreviousDepth[Depth]>}`);
+				}[keyof C & string]
+			: never;
+
+// Counts down the nesting levels ConfigKey still descends into
+type PreviousDepth = [0, 0, 1, 2, 3, 4];
+
+export interface CommandContext<C = unknown> {
 	logger: Logger;
+	/**
+	 * Subscribe to config reloads while the command runs, after `configure()`.
+	 * Returns a function that unsubscribes.
+	 */
+	watchConfig?: (listener: ConfigWatchListener<C>) => () => void;
 	[key: string]: unknown;
 }
 
@@ -28,12 +64,24 @@ export interface CommandDefinition<T, R = unknown> {
 	metadata?: Record<string, unknown>;
 	handler: CommandHandler<T, R>;
 	aliases?: string[];
+	flags?: Record<string, string>;
+	positional?: string[];
+	/** Input field paths that default to dotted config keys */
+	configDefaults?: Record<string, string>;
+	completions?: Record<string, CompletionCallback>;
 	examples?: T[];
 	subcommands?: CommandDefinition<unknown, unknown>[];
 	parent?: string;
 	middleware?: Middleware<unknown, unknown>[];
 }
 
+export type CompletionCallback = (args: {
+	current: string;
+	words: string[];
+}) => Promise<string[]> | string[];
+
+export type CompletionShell = "bash" | "zsh" | "fish" | "powershell";
+
 export interface CommandConfig {
 	command: string;
 	description?: string;
@@ -65,13 +113,22 @@ export interface Logger {
 
 export class ConsoleLogger implements Logger {
 	private readonly debugEnabled: boolean;
+	private stderrOnly = false;
 
 	constructor(debug = false) {
 		this.debugEnabled = debug;
 	}
 
+	/**
+	 * Write info, success and debug messages to stderr too, for commands
+	 * whose stdout is read by another program
+	 */
+	logToStderr(): void {
+		this.stderrOnly = true;
+	}
+
 	info(message: string): void {
-		console.log(chalk.blue("info:"), message);
+		this.log(chalk.blue("info:"), message);
 	}
 
 	error(message: string): void {
@@ -83,22 +140,292 @@ export class ConsoleLogger implements Logger {
 	}
 
 	success(message: string): void {
-		console.log(chalk.green("success:"), message);
+		this.log(chalk.green("success:"), message);
 	}
 
 	debug(message: string): void {
 		if (this.debugEnabled) {
-			console.log(chalk.gray("debug:"), message);
+			this.log(chalk.gray("debug:"), message);
+		}
+	}
+
+	private log(label: string, message: string): void {
+		if (this.stderrOnly) {
+			console.error(label, message);
+		} else {
+			console.log(label, message);
+		}
+	}
+}
+
+/**
+ * Process exit codes set by `Devtool.run`.
+ *
+ * - `success` (0): the command completed
+ * - `error` (1): the command failed, or an unexpected error occurred
+ * - `usage` (2): invalid arguments or an unknown command
+ * - `config` (78): the configuration could not be loaded or validated
+ * - `aborted` (130): the user cancelled the command
+ */
+export const EXIT_CODES = {
+	success: 0,
+	error: 1,
+	usage: 2,
+	config: 78,
+	aborted: 130,
+} as const;
+
+export interface CommandErrorOptions {
+	exitCode?: number;
+	code?: string;
+}
+
+/**
+ * Base class for errors that should end the CLI with a specific exit code.
+ * Throw it (or a subclass) from a handler or middleware to control how the
+ * process exits.
+ */
+export class CommandError extends Error {
+	readonly exitCode: number;
+	readonly code: string;
+
+	constructor(message: string, options: CommandErrorOptions = {}) {
+		super(message);
+		Object.setPrototypeOf(this, new.target.prototype);
+		this.name = new.target.name;
+		this.exitCode = options.exitCode ?? EXIT_CODES.error;
+		this.code = options.code ?? "COMMAND_ERROR";
+	}
+}
+
+/**
+ * Raised when command input fails validation. Also thrown by
+ * `returnValidationErrors`.
+ */
+export class CommandValidationError extends CommandError {
+	readonly validationErrors: ValidationErrors;
+
+	constructor(
+		validationErrors: ValidationErrors,
+		message = "Validation failed",
+	) {
+		super(message, { exitCode: EXIT_CODES.usage, code: "VALIDATION_ERROR" });
+		this.validationErrors = validationErrors;
+	}
+
+	static fromZodError(error: z.ZodError): CommandValidationError {
+		return new CommandValidationError(formatValidationErrors(error));
+	}
+}
+
+function formatSuggestions(suggestions: string[]): string {
+	return suggestions.length > 0
+		? ` Did you mean ${suggestions.map((item) => `"${item}"`).join(" or ")}?`
+		: "";
+}
+
+export class UnknownCommandError extends CommandError {
+	readonly command: string;
+	readonly suggestions: string[];
+
+	constructor(command: string, suggestions: string[] = []) {
+		super(
+			`Unknown command: ${command.replace(/:/g, " ")}.${formatSuggestions(suggestions)}`,
+			{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_COMMAND" },
+		);
+		this.command = command;
+		this.suggestions = suggestions;
+	}
+}
+
+export class UnknownOptionError extends CommandError {
+	readonly options: string[];
+	readonly suggestions: Record<string, string[]>;
+
+	constructor(options: string[], suggestions: Record<string, string[]> = {}) {
+		super(
+			options
+				.map(
+					(option) =>
+						`Unknown option: --${option}.${formatSuggestions((suggestions[option] || []).map((item) => `--${item}`))}`,
+				)
+				.join("\n"),
+			{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_OPTION" },
+		);
+		this.options = options;
+		this.suggestions = suggestions;
+	}
+}
+
+/** Where in a config source a problem was found */
+export interface ConfigLocation {
+	file?: string;
+	/** 1-based line, for JSON and YAML files */
+	line?: number;
+	/** 1-based column, for JSON and YAML files */
+	column?: number;
+}
+
+export interface ConfigIssue extends ConfigLocation {
+	/** Dotted config key, empty for problems with the file as a whole */
+	path: string;
+	message: string;
+	/** Environment variable the invalid value came from */
+	variable?: string;
+}
+
+/**
+ * Raised when config cannot be loaded or fails validation. `issues` lists
+ * every problem with the file, line and column it was found at where known.
+ */
+export class ConfigError extends CommandError {
+	readonly file?: string;
+	readonly line?: number;
+	readonly column?: number;
+	readonly issues: ConfigIssue[];
+
+	constructor(
+		message: string,
+		details: ConfigLocation & { issues?: ConfigIssue[] } = {},
+	) {
+		super(message, { exitCode: EXIT_CODES.config, code: "CONFIG_ERROR" });
+		this.file = details.file;
+		this.line = details.line;
+		this.column = details.column;
+		this.issues = details.issues ?? [
+			{ path: "", message, ...pickLocation(details) },
+		];
+	}
+}
+
+function pickLocation(location: ConfigLocation): ConfigLocation {
+	const { file, line, column } = location;
+	return { file, line, column };
+}
+
+/**
+ * `file:line:column`, or as much of it as is known
+ */
+function formatConfigLocation(location: ConfigLocation): string {
+	return [location.file, location.line, location.column]
+		.filter((part) => part !== undefined)
+		.join(":");
+}
+
+export class UserAbortError extends CommandError {
+	constructor(message = "Aborted") {
+		super(message, { exitCode: EXIT_CODES.aborted, code: "USER_ABORT" });
+	}
+}
+
+export type CommandResult<R> =
+	| { ok: true; data: R }
+	| { ok: false; error: Error; validationErrors?: ValidationErrors };
+
+export interface InvokeOptions {
+	config?: unknown;
+	context?: Partial<CommandContext>;
+	/** Called with the input, config defaults applied, before it is validated */
+	beforeValidation?: (input: unknown) => void | Promise<void>;
+	/** Called with the parsed input before the handler runs */
+	afterValidation?: (input: unknown) => void | Promise<void>;
+}
+
+/**
+ * One `path: message` line per validation error, e.g. `db.port: Required`
+ */
+function formatValidationErrorLines(
+	errors: ValidationErrors,
+	path: string[] = [],
+): string[] {
+	const lines = (errors._errors || []).map((message) =>
+		path.length > 0 ? `${path.join(".")}: ${message}` : message,
+	);
+
+	for (const [key, value] of Object.entries(errors)) {
+		if (key !== "_errors" && value && !Array.isArray(value)) {
+			lines.push(...formatValidationErrorLines(value, [...path, key]));
 		}
 	}
+
+	return lines;
+}
+
+function toCommandFailure(error: unknown): CommandResult<never> {
+	const normalized =
+		error instanceof z.ZodError
+			? CommandValidationError.fromZodError(error)
+			: error instanceof Error
+				? error
+				: new Error(String(error));
+
+	return {
+		ok: false,
+		error: normalized,
+		validationErrors:
+			normalized instanceof CommandValidationError
+				? normalized.validationErrors
+				: undefined,
+	};
+}
+
+/** Payload of the `afterConfigLoad` plugin hook */
+export interface PluginConfigEvent {
+	config: unknown;
 }
 
-export interface Plugin {
+/** Payload of the `beforeValidation` and `beforeCommand` plugin hooks */
+export interface PluginCommandEvent {
+	/** Command name in `parent sub` form */
+	command: string;
+	/** Raw input before validation, parsed input after it */
+	input: unknown;
+	config: unknown;
+}
+
+/** Payload of the `afterCommand` plugin hook */
+export interface PluginResultEvent extends PluginCommandEvent {
+	result: unknown;
+	/** Time spent validating input and running the handler */
+	durationMs: number;
+}
+
+/** Payload of the `onError` plugin hook */
+export interface PluginErrorEvent {
+	/** Undefined if the error happened before a command was resolved */
+	command?: string;
+	error: unknown;
+}
+
+/** Payload of the `shutdown` plugin hook */
+export interface PluginShutdownEvent {
+	/** The signal that ended the process, if any */
+	signal?: NodeJS.Signals;
+}
+
+export interface PluginEvents {
+	afterConfigLoad: PluginConfigEvent;
+	beforeValidation: PluginCommandEvent;
+	beforeCommand: PluginCommandEvent;
+	afterCommand: PluginResultEvent;
+	onError: PluginErrorEvent;
+	shutdown: PluginShutdownEvent;
+}
+
+/**
+ * Lifecycle hooks called by `Devtool.run`, awaited one plugin at a time in
+ * load order
+ */
+export type PluginHooks = {
+	[K in keyof PluginEvents]?: (event: PluginEvents[K]) => void | Promise<void>;
+};
+
+export interface Plugin extends PluginHooks {
 	name: string;
 	version: string;
 	description?: string;
 	author?: string;
-	initialize: (cli: CliBuilder) => void;
+	initialize: (cli: CliBuilder) => void | Promise<void>;
 }
 
 export const pluginManifestSchema = z.object({
@@ -113,15 +440,115 @@ export const pluginManifestSchema = z.object({
 export type PluginManifest = z.infer<typeof pluginManifestSchema>;
 
 export interface ConfigOptions<T> {
-	schema: z.ZodType<T>;
+	/** Validates the merged config; its output type is the type of `config` */
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>;
 	configFiles?: string[];
 	envPrefix?: string;
 	defaults?: Partial<T>;
+	/**
+	 * Search for a config file when none of `configFiles` exists: upward from
+	 * the working directory to the repository root, then in
+	 * `$XDG_CONFIG_HOME/<name>` and `~/.<name>`
+	 */
+	discover?: boolean;
+	/** Name used for discovered file names, defaults to `CliMetadata.name` */
+	name?: string;
+	/**
+	 * What to do when config cannot be loaded or is invalid:
+	 * - `strict` (default): throw a `ConfigError`
+	 * - `warn`: log a warning and drop the invalid values, so their defaults apply
+	 * - `fallback`: log an error and use the defaults for the whole config
+	 */
+	validation?: ConfigValidationPolicy;
+	/** Resolvers for secret references, in addition to `file:` and `dotenv:` */
+	secretResolvers?: SecretResolver[];
+	/** Loaders for config formats other than the built-in ones */
+	loaders?: ConfigLoader[];
+}
+
+export type ConfigValidationPolicy = "strict" | "warn" | "fallback";
+
+/** A config key whose value differs after a reload, with secrets redacted */
+export interface ConfigChange {
+	key: string;
+	previous: unknown;
+	current: unknown;
+}
+
+/**
+ * Emitted by `ConfigManager.watch()` after a config file changes. A failed
+ * reload keeps the last valid `config`.
+ */
+export type ConfigWatchEvent<T> =
+	| { type: "change"; config: T; previous: T; changes: ConfigChange[] }
+	| { type: "error"; config: T; error: ConfigError };
+
+export type ConfigWatchListener<T> = (event: ConfigWatchEvent<T>) => void;
+
+/** Delay before reloading, so that a burst of writes causes one reload */
+const CONFIG_RELOAD_DELAY_MS = 100;
+
+/**
+ * Config layers from lowest to highest precedence
+ */
+export const CONFIG_LAYERS = [
+	"defaults",
+	"system",
+	"user",
+	"project",
+	"local",
+	"env",
+	"cli",
+] as const;
+
+export type ConfigLayer = (typeof CONFIG_LAYERS)[number];
+
+/** Where one config value came from */
+export interface ConfigValueSource {
+	layer: ConfigLayer;
+	file?: string;
+	/** Environment variable, for values from the `env` layer */
+	variable?: string;
+	value: unknown;
+}
+
+export interface LoadConfigOptions {
+	/** Load this file instead of searching, e.g. from `--config <path>` */
+	configPath?: string;
 }
 
 export interface CliOptions {
 	debug?: boolean;
 	pluginsDir?: string;
+	/**
+	 * Plugins to load before any others, by package name or by path to a
+	 * plugin or package directory. Passing it, even empty, enables the
+	 * `plugins` commands and plugins added with them.
+	 */
+	plugins?: string[];
+	/**
+	 * Also load plugins from installed packages named `zod-command-plugin-*`
+	 * or with a `"zod-command"` key in their package.json
+	 */
+	discoverPlugins?: boolean;
+	/**
+	 * Split values of array options on this separator, e.g. "," turns
+	 * `--tag a,b` into `["a", "b"]`. Repeated flags always accumulate.
+	 */
+	arraySeparator?: string;
+	/**
+	 * Prompt for missing required inputs when running in a TTY (default true).
+	 * Commands can override this with `.meta({ interactive: boolean })`.
+	 */
+	interactive?: boolean;
+	/** Prompter used for interactive input, defaults to a readline prompter */
+	prompter?: Prompter;
+	/**
+	 * How to treat flags the input schema does not declare: print a warning
+	 * with suggestions (default), reject them, or ignore them. Commands can
+	 * override this with `.meta({ unknownFlags })`.
+	 */
+	unknownFlags?: "warn" | "error" | "ignore";
 }
 
 // Define a type for configuration values - simplify to avoid type issues
@@ -130,45 +557,113 @@ export interface ConfigObject {
 	[key: string]: ConfigValue;
 }
 
+/**
+ * Reads one config file format. `values` tells how the loaded values are
+ * turned into config:
+ * - `typed` (default): used as loaded
+ * - `strings`: string values are coerced to the schema's types, like
+ *   environment variables
+ * - `env`: keys are environment variable names, mapped to config keys
+ *   through the schema like the `env` layer
+ */
 export interface ConfigLoader {
 	canLoad(filePath: string): boolean;
-	load(filePath: string): ConfigObject;
+	load(filePath: string): Promise<ConfigObject>;
+	values?: "typed" | "strings" | "env";
 }
 
+/**
+ * Loads `.js`, `.mjs` and `.cjs` config. ES modules (`.mjs`, or `.js` in a
+ * `"type": "module"` package) are loaded with `import()`, others with
+ * `require`. The default export may be an object, a promise or a function
+ * returning either.
+ */
 export class JsConfigLoader implements ConfigLoader {
 	canLoad(filePath: string): boolean {
-		return filePath.endsWith(".js");
+		return /\.(js|mjs|cjs)$/.test(filePath);
 	}
 
-	load(filePath: string): ConfigObject {
+	async load(filePath: string): Promise<ConfigObject> {
 		try {
-			return require(path.resolve(filePath));
+			return await resolveConfigExport(
+				isEsmFile(filePath)
+					? await importConfigModule(filePath)
+					: requireConfigModule(filePath),
+			);
 		} catch (error) {
-			throw new Error(
+			throw new ConfigError(
 				`Failed to load JS config from ${filePath}: ${(error as Error).message}`,
+				{ file: filePath },
 			);
 		}
 	}
 }
 
+/**
+ * Loads `.ts`, `.mts` and `.cts` config without ts-node. The file is
+ * imported with `tsx` if it is installed, otherwise transpiled with
+ * `esbuild`, otherwise imported directly, which works on Node versions that
+ * strip types.
+ */
 export class TsConfigLoader implements ConfigLoader {
 	canLoad(filePath: string): boolean {
-		return filePath.endsWith(".ts");
+		return /\.(ts|mts|cts)$/.test(filePath) && !filePath.endsWith(".d.ts");
 	}
 
-	load(filePath: string): ConfigObject {
+	async load(filePath: string): Promise<ConfigObject> {
 		try {
+			return await resolveConfigExport(await this.importTs(filePath));
+		} catch (error) {
+			throw new ConfigError(
+				`Failed to load TS config from ${filePath}: ${(error as Error).message}`,
+				{ file: filePath },
+			);
+		}
+	}
+
+	private async importTs(filePath: string): Promise<unknown> {
+		const resolved = path.resolve(filePath);
+
+		const tsx = await importOptional<{
+			tsImport: (specifier: string, parentUrl: string) => Promise<unknown>;
+		}>("tsx/esm/api");
+		if (tsx) {
+			const url = pathToFileURL(resolved).href;
+			return getModuleExport(await tsx.tsImport(url, url));
+		}
+
+		const esbuild = await importOptional<{
+			transform: (
+				source: string,
+				options: Record<string, unknown>,
+			) => Promise<{ code: string }>;
+		}>("esbuild");
+		if (esbuild) {
+			const esm = isEsmFile(resolved);
+			const { code } = await esbuild.transform(
+				fs.readFileSync(resolved, "utf-8"),
+				{ loader: "ts", format: esm ? "esm" : "cjs", sourcefile: resolved },
+			);
+			// Written next to the source so that relative imports resolve
+			const output = path.join(
+				path.dirname(resolved),
+				`.${path.basename(resolved)}.${process.pid}-${Date.now()}${esm ? ".mjs" : ".cjs"}`,
+			);
+			fs.writeFileSync(output, code);
 			try {
-				require("ts-node/register");
-			} catch (e) {
-				throw new Error(
-					"Failed to load TypeScript config. Is ts-node installed?",
-				);
+				return esm
+					? await importConfigModule(output)
+					: requireConfigModule(output);
+			} finally {
+				fs.rmSync(output, { force: true });
 			}
-			return require(path.resolve(filePath));
+		}
+
+		try {
+			return await importConfigModule(resolved);
 		} catch (error) {
 			throw new Error(
-				`Failed to load TS config from ${filePath}: ${(error as Error).message}`,
+				`${(error as Error).message}. Install tsx or esbuild to load TypeScript config.`,
 			);
 		}
 	}
@@ -179,13 +674,19 @@ export class JsonConfigLoader implements ConfigLoader {
 		return filePath.endsWith(".json");
 	}
 
-	load(filePath: string): ConfigObject {
+	async load(filePath: string): Promise<ConfigObject> {
+		const content = fs.readFileSync(filePath, "utf-8");
 		try {
-			const content = fs.readFileSync(filePath, "utf-8");
 			return JSON.parse(content);
 		} catch (error) {
-			throw new Error(
-				`Failed to load JSON config from ${filePath}: ${(error as Error).message}`,
+			const message = (error as Error).message;
+			const position = /position (\d+)/.exec(message);
+			const location = position
+				? getTextLocation(content, Number(position[1]))
+				: {};
+			throw new ConfigError(
+				`Failed to load JSON config from ${formatConfigLocation({ file: filePath, ...location })}: ${message}`,
+				{ file: filePath, ...location },
 			);
 		}
 	}
@@ -196,739 +697,6229 @@ export class YamlConfigLoader implements ConfigLoader {
 		return filePath.endsWith(".yml") || filePath.endsWith(".yaml");
 	}
 
-	load(filePath: string): ConfigObject {
+	async load(filePath: string): Promise<ConfigObject> {
+		const content = fs.readFileSync(filePath, "utf-8");
 		try {
-			const content = fs.readFileSync(filePath, "utf-8");
 			return yaml.load(content) as ConfigObject;
 		} catch (error) {
-			throw new Error(
-				`Failed to load YAML config from ${filePath}: ${(error as Error).message}`,
+			const mark = (error as yaml.YAMLException).mark;
+			const location = mark
+				? { line: mark.line + 1, column: mark.column + 1 }
+				: {};
+			throw new ConfigError(
+				`Failed to load YAML config from ${formatConfigLocation({ file: filePath, ...location })}: ${(error as yaml.YAMLException).reason ?? (error as Error).message}`,
+				{ file: filePath, ...location },
 			);
 		}
 	}
 }
 
-export class ConfigLoaderRegistry {
-	private loaders: ConfigLoader[] = [];
-
-	constructor() {
-		this.registerLoader(new JsConfigLoader());
-		this.registerLoader(new TsConfigLoader());
-		this.registerLoader(new JsonConfigLoader());
-		this.registerLoader(new YamlConfigLoader());
-	}
-
-	registerLoader(loader: ConfigLoader): void {
-		this.loaders.push(loader);
+export class TomlConfigLoader implements ConfigLoader {
+	canLoad(filePath: string): boolean {
+		return filePath.endsWith(".toml");
 	}
 
-	getLoaderForFile(filePath: string): ConfigLoader | undefined {
-		return this.loaders.find((loader) => loader.canLoad(filePath));
+	async load(filePath: string): Promise<ConfigObject> {
+		const content = fs.readFileSync(filePath, "utf-8");
+		try {
+			return fromTomlValue(parseToml(content)) as ConfigObject;
+		} catch (error) {
+			throw toSyntaxConfigError(error, "TOML", filePath, content);
+		}
 	}
 }
 
-export class PluginManager {
-	private plugins: Map<string, Plugin> = new Map();
-	private cli: CliBuilder;
-	private logger: Logger;
+/**
+ * Loads INI files. `[section]` headers and dotted keys create nested
+ * objects and `key[]` entries collect arrays. Values are coerced to the
+ * schema's types.
+ */
+export class IniConfigLoader implements ConfigLoader {
+	values = "strings" as const;
 
-	constructor(cli: CliBuilder, logger: Logger) {
-		this.cli = cli;
-		this.logger = logger;
+	canLoad(filePath: string): boolean {
+		return filePath.endsWith(".ini");
 	}
 
-	async loadPluginsFromDirectory(pluginsDir: string): Promise<void> {
+	async load(filePath: string): Promise<ConfigObject> {
+		const content = fs.readFileSync(filePath, "utf-8");
 		try {
-			if (!fs.existsSync(pluginsDir)) {
-				this.logger.warn(`Plugins directory not found: ${pluginsDir}`);
-				return;
-			}
-
-			const entries = fs.readdirSync(pluginsDir, { withFileTypes: true });
-			const pluginDirs = entries
-				.filter((entry) => entry.isDirectory())
-				.map((entry) => path.join(pluginsDir, entry.name));
-
-			for (const pluginDir of pluginDirs) {
-				await this.loadPlugin(pluginDir);
-			}
-
-			this.logger.info(`Loaded ${this.plugins.size} plugins`);
+			return parseIni(content);
 		} catch (error) {
-			this.logger.error(
-				`Error loading plugins: ${error instanceof Error ? error.message : String(error)}`,
-			);
+			throw toSyntaxConfigError(error, "INI", filePath, content);
 		}
 	}
+}
 
-	private async loadPlugin(pluginDir: string): Promise<void> {
-		try {
-			const manifestPath = path.join(pluginDir, "zod-command-plugin.json");
+/**
+ * Loads `.env` files (`.env`, `.env.local`, `app.env`). Variables are
+ * mapped to config keys like the `env` layer, with `envPrefix` when one is
+ * set and without it otherwise.
+ */
+export class DotenvConfigLoader implements ConfigLoader {
+	values = "env" as const;
 
-			if (!fs.existsSync(manifestPath)) {
-				this.logger.warn(`Plugin manifest not found: ${manifestPath}`);
-				return;
-			}
+	canLoad(filePath: string): boolean {
+		const name = path.basename(filePath);
+		return name === ".env" || name.startsWith(".env.") || name.endsWith(".env");
+	}
 
-			const manifestContent = fs.readFileSync(manifestPath, "utf-8");
-			const manifest = pluginManifestSchema.parse(JSON.parse(manifestContent));
+	async load(filePath: string): Promise<ConfigObject> {
+		return parseDotenv(fs.readFileSync(filePath, "utf-8"));
+	}
+}
 
-			if (this.plugins.has(manifest.name)) {
-				this.logger.warn(`Plugin ${manifest.name} is already loaded`);
-				return;
-			}
+/**
+ * Whether a JS or TS file is an ES module: `.mjs`/`.mts`, or `.js`/`.ts` in
+ * a package with `"type": "module"`
+ */
+function isEsmFile(filePath: string): boolean {
+	if (/\.m[jt]s$/.test(filePath)) {
+		return true;
+	}
+	if (/\.c[jt]s$/.test(filePath)) {
+		return false;
+	}
 
-			const mainPath = path.join(pluginDir, manifest.main);
-			if (!fs.existsSync(mainPath)) {
-				this.logger.error(`Plugin main file not found: ${mainPath}`);
-				return;
+	let directory = path.dirname(path.resolve(filePath));
+	while (true) {
+		const packageJson = path.join(directory, "package.json");
+		if (fs.existsSync(packageJson)) {
+			try {
+				return (
+					JSON.parse(fs.readFileSync(packageJson, "utf-8")).type === "module"
+				);
+			} catch {
+				return false;
 			}
+		}
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			return false;
+		}
+		directory = parent;
+	}
+}
 
-			const pluginModule = await import(mainPath);
-			const plugin: Plugin = pluginModule.default || pluginModule;
-
-			if (!plugin || typeof plugin.initialize !== "function") {
-				this.logger.error(`Invalid plugin module: ${manifest.name}`);
-				return;
-			}
+/**
+ * Imports an ES module. The modification time is added to the URL so that
+ * reloading an edited file does not return the cached module.
+ */
+async function importConfigModule(filePath: string): Promise<unknown> {
+	const resolved = path.resolve(filePath);
+	const url = `${pathToFileURL(resolved).href}?mtime=${fs.statSync(resolved).mtimeMs}`;
+	return getModuleExport(await import(url));
+}
 
-			plugin.name = manifest.name;
-			plugin.version = manifest.version;
-			plugin.description = manifest.description;
-			plugin.author = manifest.author;
+/**
+ * Requires a CommonJS module, bypassing the require cache
+ */
+function requireConfigModule(filePath: string): unknown {
+	const resolved = path.resolve(filePath);
+	const requireFromFile = createRequire(resolved);
+	delete requireFromFile.cache[resolved];
+	const exported = requireFromFile(resolved);
+	return exported?.__esModule && "default" in exported
+		? exported.default
+		: exported;
+}
 
-			this.plugins.set(plugin.name, plugin);
+/**
+ * The default export of a module namespace, or its named exports when it
+ * has none
+ */
+function getModuleExport(namespace: unknown): unknown {
+	const exports = namespace as Record<string, unknown>;
+	return "default" in exports ? exports.default : { ...exports };
+}
 
-			plugin.initialize(this.cli);
+/**
+ * Awaits a config export that may be an object, a promise or a function
+ * returning either
+ */
+async function resolveConfigExport(exported: unknown): Promise<ConfigObject> {
+	const config = await (typeof exported === "function" ? exported() : exported);
+	if (!isPlainObject(config)) {
+		throw new Error("the config file must export an object");
+	}
+	return config;
+}
 
-			this.logger.info(`Loaded plugin: ${plugin.name} v${plugin.version}`);
-		} catch (error) {
-			this.logger.error(
-				`Error loading plugin from ${pluginDir}: ${error instanceof Error ? error.message : String(error)}`,
-			);
+/**
+ * Imports an optional dependency, or returns undefined if it is not installed
+ */
+async function importOptional<M>(name: string): Promise<M | undefined> {
+	try {
+		return (await import(name)) as M;
+	} catch (error) {
+		const code = (error as { code?: string }).code;
+		if (code === "ERR_MODULE_NOT_FOUND" || code === "MODULE_NOT_FOUND") {
+			return undefined;
 		}
+		throw error;
 	}
+}
 
-	getPlugin(name: string): Plugin | undefined {
-		return this.plugins.get(name);
+/** A syntax error at a character offset of the parsed text */
+class TextSyntaxError extends Error {
+	readonly offset: number;
+
+	constructor(message: string, offset: number) {
+		super(message);
+		this.offset = offset;
 	}
+}
 
-	getAllPlugins(): Plugin[] {
-		return Array.from(this.plugins.values());
+function toSyntaxConfigError(
+	error: unknown,
+	format: string,
+	filePath: string,
+	content: string,
+): ConfigError {
+	if (error instanceof TomlError) {
+		const location = { line: error.line, column: error.column };
+		// The message repeats the location as a code frame after its first line
+		const [message] = error.message
+			.replace(/^Invalid TOML document: /, "")
+			.split("\n");
+		return new ConfigError(
+			`Failed to load ${format} config from ${formatConfigLocation({ file: filePath, ...location })}: ${message}`,
+			{ file: filePath, ...location },
+		);
 	}
+
+	const location =
+		error instanceof TextSyntaxError
+			? getTextLocation(content, error.offset)
+			: {};
+	return new ConfigError(
+		`Failed to load ${format} config from ${formatConfigLocation({ file: filePath, ...location })}: ${(error as Error).message}`,
+		{ file: filePath, ...location },
+	);
 }
 
-export class ConfigManager<T> {
-	private schema: z.ZodType<T>;
-	private configFiles: string[];
-	private envPrefix: string;
-	private defaults: Partial<T>;
-	private logger: Logger;
-	private config: T | null = null;
-	private loaderRegistry: ConfigLoaderRegistry;
-
-	constructor(options: ConfigOptions<T>, logger: Logger) {
-		this.schema = options.schema;
-		this.configFiles = options.configFiles || [];
-		this.envPrefix = options.envPrefix || "";
-		this.defaults = options.defaults || {};
-		this.logger = logger;
-		this.loaderRegistry = new ConfigLoaderRegistry();
+/**
+ * Converts parsed TOML dates: offset date-times become `Date`s; local dates
+ * and times are kept as strings.
+ */
+function fromTomlValue(value: unknown): unknown {
+	if (value instanceof TomlDate) {
+		return value.isLocal() ? value.toISOString() : new Date(value.getTime());
 	}
-
-	registerLoader(loader: ConfigLoader): void {
-		this.loaderRegistry.registerLoader(loader);
+	if (Array.isArray(value)) {
+		return value.map(fromTomlValue);
 	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, fromTomlValue(item)]),
+		);
+	}
+	return value;
+}
 
-	async loadConfig(commandLineArgs: Record<string, unknown> = {}): Promise<T> {
-		try {
-			let configData: Partial<T> = { ...this.defaults };
-
-			configData = this.mergeConfig(configData, this.loadFromEnv());
-			configData = this.mergeConfig(configData, await this.loadFromFiles());
-			configData = this.mergeConfig(configData, commandLineArgs as Partial<T>);
+/**
+ * Parses INI content into nested objects. Values are strings, with
+ * surrounding quotes removed.
+ */
+function parseIni(content: string): ConfigObject {
+	const config: ConfigObject = {};
+	let section = "";
+	let offset = 0;
+
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.trim();
+		const lineOffset = offset;
+		offset += rawLine.length + 1;
+
+		if (!line || line.startsWith(";") || line.startsWith("#")) {
+			continue;
+		}
 
-			const validatedConfig = this.schema.parse(configData);
+		const header = /^\[([^\]]+)\]$/.exec(line);
+		if (header) {
+			section = header[1].trim();
+			continue;
+		}
 
-			this.config = validatedConfig;
-			return validatedConfig;
-		} catch (error) {
-			if (error instanceof z.ZodError) {
-				this.logger.error("Configuration validation error:");
-				error.errors.forEach((err) => {
-					this.logger.error(`- ${err.path.join(".")}: ${err.message}`);
-				});
-			} else {
-				this.logger.error(
-					`Error loading configuration: ${error instanceof Error ? error.message : String(error)}`,
-				);
-			}
+		const entry = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+		if (!entry) {
+			throw new TextSyntaxError(`Expected "key = value"`, lineOffset);
+		}
 
-			const defaultConfig = this.schema.parse(this.defaults);
-			this.config = defaultConfig;
-			return defaultConfig;
+		const [, rawKey, rawValue] = entry;
+		const isArray = rawKey.endsWith("[]");
+		const key = [section, isArray ? rawKey.slice(0, -2) : rawKey]
+			.filter(Boolean)
+			.join(".");
+		const quoted = /^(["'])(.*)\1$/.exec(rawValue);
+		const value = quoted ? quoted[2] : rawValue.replace(/\s+[;#].*$/, "");
+
+		if (isArray) {
+			const existing = getConfigValue(config, key);
+			setConfigValue(config, key, [
+				...(Array.isArray(existing) ? existing : []),
+				value,
+			]);
+		} else {
+			setConfigValue(config, key, value);
 		}
 	}
 
-	getConfig(): T {
-		if (!this.config) {
-			throw new Error("Configuration not loaded");
-		}
-		return this.config;
+	return config;
+}
+
+export class ConfigLoaderRegistry {
+	private loaders: ConfigLoader[] = [];
+
+	constructor() {
+		this.registerLoader(new JsConfigLoader());
+		this.registerLoader(new TsConfigLoader());
+		this.registerLoader(new JsonConfigLoader());
+		this.registerLoader(new YamlConfigLoader());
+		this.registerLoader(new TomlConfigLoader());
+		this.registerLoader(new IniConfigLoader());
+		this.registerLoader(new DotenvConfigLoader());
 	}
 
-	private loadFromEnv(): Partial<T> {
-		const config: ConfigObject = {};
+	registerLoader(loader: ConfigLoader): void {
+		this.loaders.push(loader);
+	}
 
-		if (!this.envPrefix) {
-			return config as Partial<T>;
-		}
+	getLoaderForFile(filePath: string): ConfigLoader | undefined {
+		return this.loaders.find((loader) => loader.canLoad(filePath));
+	}
+}
 
-		for (const [key, value] of Object.entries(process.env)) {
-			if (key.startsWith(this.envPrefix) && value !== undefined) {
-				const configKey = key.slice(this.envPrefix.length).toLowerCase();
-				const configPath = configKey.split("_");
+/** Shown in place of secret config values */
+export const REDACTED = "[redacted]";
 
-				let current = config;
-				for (let i = 0; i < configPath.length - 1; i++) {
-					const segment = configPath[i];
-					if (!current[segment]) {
-						current[segment] = {};
-					}
-					current = current[segment] as ConfigObject;
-				}
+/**
+ * Resolves references such as `dotenv:API_TOKEN` found in secret config
+ * fields to the secret itself
+ */
+export interface SecretResolver {
+	canResolve(reference: string): boolean;
+	resolve(reference: string): Promise<string> | string;
+}
 
-				const lastSegment = configPath[configPath.length - 1];
+/**
+ * Reads the contents of a file for `file:<path>` references, without the
+ * trailing newline
+ */
+export class FileSecretResolver implements SecretResolver {
+	canResolve(reference: string): boolean {
+		return reference.startsWith("file:");
+	}
 
-				if (value.toLowerCase() === "true") {
-					current[lastSegment] = true;
-				} else if (value.toLowerCase() === "false") {
-					current[lastSegment] = false;
-				} else if (/^-?\d+$/.test(value)) {
-					current[lastSegment] = Number.parseInt(value, 10);
-				} else if (/^-?\d+\.\d+$/.test(value)) {
-					current[lastSegment] = Number.parseFloat(value);
-				} else {
-					current[lastSegment] = value;
-				}
-			}
-		}
+	resolve(reference: string): string {
+		return readSecretFile(reference.slice("file:".length));
+	}
+}
 
-		return config as Partial<T>;
+/**
+ * Looks up `dotenv:<NAME>` references in a `.env`-style file of
+ * `NAME=value` lines, as a local stand-in for a secret store
+ */
+export class DotenvSecretResolver implements SecretResolver {
+	private filePath: string;
+
+	constructor(filePath = ".env") {
+		this.filePath = filePath;
 	}
 
-	private async loadFromFiles(): Promise<Partial<T>> {
-		for (const configFile of this.configFiles) {
-			try {
-				if (fs.existsSync(configFile)) {
-					const loader = this.loaderRegistry.getLoaderForFile(configFile);
+	canResolve(reference: string): boolean {
+		return reference.startsWith("dotenv:");
+	}
 
-					if (!loader) {
-						this.logger.warn(`No loader found for config file: ${configFile}`);
-						continue;
-					}
+	resolve(reference: string): string {
+		const name = reference.slice("dotenv:".length);
+		const values = parseDotenv(fs.readFileSync(this.filePath, "utf-8"));
 
-					const config = loader.load(configFile);
-					this.logger.info(`Loaded config from ${configFile}`);
-					return config as Partial<T>;
-				}
-			} catch (error) {
-				this.logger.warn(
-					`Error loading config from ${configFile}: ${error instanceof Error ? error.message : String(error)}`,
-				);
-			}
+		if (!Object.prototype.hasOwnProperty.call(values, name)) {
+			throw new Error(`${name} is not set in ${this.filePath}`);
 		}
-
-		return {} as Partial<T>;
+		return values[name];
 	}
+}
 
-	private mergeConfig<K extends Partial<T>>(target: K, source: K): K {
-		const result = { ...target } as K;
+export class SecretResolverRegistry {
+	private resolvers: SecretResolver[] = [];
 
-		for (const key in source) {
-			if (Object.prototype.hasOwnProperty.call(source, key)) {
-				const value = source[key];
+	constructor() {
+		this.registerResolver(new FileSecretResolver());
+		this.registerResolver(new DotenvSecretResolver());
+	}
 
-				if (
-					value !== null &&
-					typeof value === "object" &&
-					!Array.isArray(value)
-				) {
-					// @ts-ignore - Complex merging of generic objects
-					result[key] = this.mergeConfig((result[key] || {}) as K, value as K);
-				} else {
-					// @ts-ignore - Assignment to generic object
-					result[key] = value;
-				}
-			}
-		}
+	/**
+	 * Add a resolver. Resolvers registered later take precedence, so a
+	 * `DotenvSecretResolver` for another file replaces the built-in one.
+	 */
+	registerResolver(resolver: SecretResolver): void {
+		this.resolvers.unshift(resolver);
+	}
 
-		return result;
+	getResolver(reference: string): SecretResolver | undefined {
+		return this.resolvers.find((resolver) => resolver.canResolve(reference));
 	}
 }
 
-// Middleware types and implementation
-export interface MiddlewareArgs<
-	T,
-	Context,
-	Metadata = Record<string, unknown>,
-> {
-	parsedInput: T;
-	ctx: Context;
-	metadata?: Metadata;
-	next: (options?: { ctx?: Partial<Context> }) => Promise<
-		MiddlewareResult<unknown, Context>
-	>;
+let stdinContent: string | undefined;
+
+/**
+ * Reads stdin once per process, so that config reloads see the same content
+ */
+function readStdin(): string {
+	if (stdinContent === undefined) {
+		stdinContent = fs.readFileSync(0, "utf-8");
+	}
+	return stdinContent;
 }
 
-export interface MiddlewareResult<R, Context> {
-	result: R;
-	ctx: Context;
+/**
+ * Reads a secret from a file, or from stdin for `-`, dropping one trailing
+ * newline
+ */
+function readSecretFile(filePath: string): string {
+	const content =
+		filePath === "-" ? readStdin() : fs.readFileSync(filePath, "utf-8");
+	return content.replace(/\r?\n$/, "");
 }
 
-export type MiddlewareFunction<
-	T,
-	R,
-	Context,
-	Metadata = Record<string, unknown>,
-> = (
-	args: MiddlewareArgs<T, Context, Metadata>,
-) => Promise<MiddlewareResult<R, Context>>;
+/**
+ * Parses `.env` content: `NAME=value` lines, optionally prefixed with
+ * `export`, with `#` comments and single- or double-quoted values
+ */
+function parseDotenv(content: string): Record<string, string> {
+	const values: Record<string, string> = {};
 
-export interface Middleware<Context, Metadata = Record<string, unknown>> {
-	execute: <T, R>(args: {
-		parsedInput: T;
-		ctx: Context;
-		metadata?: Metadata;
-		handler: (args: { parsedInput: T; ctx: Context }) => Promise<R> | R;
-	}) => Promise<R>;
+	for (const line of content.split(/\r?\n/)) {
+		const match =
+			/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(?:"((?:\\.|[^"\\])*)"|'([^']*)'|([^#]*?))\s*(?:#.*)?$/.exec(
+				line,
+			);
+		if (!match) {
+			continue;
+		}
+		const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+		values[name] =
+			doubleQuoted !== undefined
+				? doubleQuoted.replace(/\\n/g, "\n").replace(/\\(.)/g, "$1")
+				: (singleQuoted ?? unquoted);
+	}
+
+	return values;
 }
 
-export class MiddlewareBuilder<
-	Context extends Record<string, unknown> = Record<string, unknown>,
-	Metadata = Record<string, unknown>,
-> {
-	define<T, R>(
-		fn: MiddlewareFunction<T, R, Context, Metadata>,
-	): Middleware<Context, Metadata> {
-		return {
-			execute: async <InputT, ResultT>({
-				parsedInput,
-				ctx,
-				metadata,
-				handler,
-			}: {
-				parsedInput: InputT;
-				ctx: Context;
-				metadata?: Metadata;
-				handler: (args: { parsedInput: InputT; ctx: Context }) =>
-					| Promise<ResultT>
-					| ResultT;
-			}): Promise<ResultT> => {
-				const result = await fn({
-					parsedInput: parsedInput as unknown as T,
-					ctx,
-					metadata,
-					next: async (options?: { ctx?: Partial<Context> }) => {
-						const newCtx = options?.ctx ? { ...ctx, ...options.ctx } : ctx;
+export interface OutputFormatContext {
+	command: CommandDefinition<unknown, unknown>;
+}
 
-						const handlerResult = await handler({
-							parsedInput,
-							ctx: newCtx,
-						});
+export interface OutputFormatter {
+	name: string;
+	/**
+	 * Output meant to be parsed by another program. Log messages go to
+	 * stderr while it is selected.
+	 */
+	machineReadable?: boolean;
+	format(result: unknown, context: OutputFormatContext): string;
+}
 
-						return {
-							result: handlerResult as unknown as R,
-							ctx: newCtx,
-						};
-					},
-				});
+// Converts values JSON and YAML cannot represent (bigint, Map, Set) into plain data
+function toSerializable(value: unknown): unknown {
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (value instanceof Map) {
+		return toSerializable(Object.fromEntries(value));
+	}
+	if (value instanceof Set) {
+		return toSerializable(Array.from(value));
+	}
+	if (Array.isArray(value)) {
+		return value.map(toSerializable);
+	}
+	if (value !== null && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, toSerializable(item)]),
+		);
+	}
+	return value;
+}
 
-				return result.result as unknown as ResultT;
-			},
-		};
+export class JsonOutputFormatter implements OutputFormatter {
+	name = "json";
+	machineReadable = true;
+
+	format(result: unknown): string {
+		return JSON.stringify(toSerializable(result), null, 2);
 	}
 }
 
-export function createMiddleware<
-	Context extends Record<string, unknown> = Record<string, unknown>,
-	Metadata = Record<string, unknown>,
->(): MiddlewareBuilder<Context, Metadata> {
-	return new MiddlewareBuilder<Context, Metadata>();
+export class YamlOutputFormatter implements OutputFormatter {
+	name = "yaml";
+	machineReadable = true;
+
+	format(result: unknown): string {
+		return yaml.dump(toSerializable(result), { skipInvalid: true }).trimEnd();
+	}
 }
 
-export class ActionBuilder<T = unknown, R = unknown> {
-	private name = "";
-	private description = "";
-	private inputZodSchema: z.ZodType<T> | null = null;
-	private outputZodSchema: z.ZodType<R> | null = null;
-	private commandMetadata: Record<string, unknown> = {};
-	private handlerFn: CommandHandler<T, R> | null = null;
-	private commandAliases: string[] = [];
-	private commandExamples: T[] = [];
-	private commandSubcommands: CommandDefinition<unknown, unknown>[] = [];
-	private parentCommand: string | undefined = undefined;
-	private cliBuilder: CliBuilder | null = null;
-	private middlewareFunctions: Middleware<unknown, unknown>[] = [];
+export class TableOutputFormatter implements OutputFormatter {
+	name = "table";
 
-	constructor(name?: string, description?: string, parent?: string) {
-		if (name) {
-			this.name = name;
+	format(result: unknown): string {
+		const data = toSerializable(result);
+
+		if (Array.isArray(data)) {
+			const rows: Record<string, unknown>[] = data.map((row) =>
+				row !== null && typeof row === "object"
+					? (row as Record<string, unknown>)
+					: { value: row },
+			);
+			const columns = Array.from(
+				new Set(rows.flatMap((row) => Object.keys(row))),
+			);
+			return this.renderTable(
+				columns,
+				rows.map((row) => columns.map((column) => row[column])),
+			);
 		}
-		if (description) {
-			this.description = description;
+
+		if (data !== null && typeof data === "object") {
+			return this.renderTable(
+				["key", "value"],
+				Object.entries(data).map(([key, value]) => [key, value]),
+			);
 		}
-		this.parentCommand = parent;
-	}
 
-	setCliBuilder(cliBuilder: CliBuilder): void {
-		this.cliBuilder = cliBuilder;
+		return data === undefined ? "" : String(data);
 	}
 
-	input(schema: z.ZodType<T>): ActionBuilder<T, R> {
-		const newBuilder = new ActionBuilder<T, R>();
-		newBuilder.name = this.name;
-		newBuilder.description = this.description;
-		newBuilder.inputZodSchema = schema;
-		newBuilder.outputZodSchema = this.outputZodSchema;
-		newBuilder.commandMetadata = this.commandMetadata;
-		newBuilder.commandAliases = this.commandAliases;
-		newBuilder.commandExamples = this.commandExamples;
-		newBuilder.commandSubcommands = this.commandSubcommands;
-		newBuilder.parentCommand = this.parentCommand;
-		newBuilder.cliBuilder = this.cliBuilder;
-		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
-		return newBuilder;
+	private renderTable(columns: string[], rows: unknown[][]): string {
+		const cells = rows.map((row) => row.map((cell) => this.formatCell(cell)));
+		const widths = columns.map((column, index) =>
+			Math.max(column.length, ...cells.map((row) => row[index].length)),
+		);
+		const line = (values: string[]) =>
+			values
+				.map((value, index) => value.padEnd(widths[index]))
+				.join("  ")
+				.trimEnd();
+
+		return [
+			line(columns),
+			line(widths.map((width) => "-".repeat(width))),
+			...cells.map(line),
+		].join("\n");
 	}
 
-	output(schema: z.ZodType<R>): ActionBuilder<T, R> {
-		const newBuilder = new ActionBuilder<T, R>();
-		newBuilder.name = this.name;
-		newBuilder.description = this.description;
-		newBuilder.inputZodSchema = this.inputZodSchema;
-		newBuilder.outputZodSchema = schema;
-		newBuilder.commandMetadata = this.commandMetadata;
-		newBuilder.commandAliases = this.commandAliases;
-		newBuilder.commandExamples = this.commandExamples;
-		newBuilder.commandSubcommands = this.commandSubcommands;
-		newBuilder.parentCommand = this.parentCommand;
-		newBuilder.cliBuilder = this.cliBuilder;
-		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
-		return newBuilder;
+	private formatCell(value: unknown): string {
+		if (value === undefined || value === null) {
+			return "";
+		}
+		if (typeof value === "object") {
+			return JSON.stringify(value);
+		}
+		return String(value);
 	}
+}
 
-	meta(metadata: Record<string, unknown>): ActionBuilder<T, R> {
-		this.commandMetadata = { ...this.commandMetadata, ...metadata };
-		return this;
+export class TextOutputFormatter implements OutputFormatter {
+	name = "text";
+
+	format(result: unknown, context: OutputFormatContext): string {
+		// Commands can provide their own renderer through .meta({ renderText })
+		const renderText = context.command.metadata?.renderText;
+		if (typeof renderText === "function") {
+			return String(renderText(result));
+		}
+
+		if (result === undefined || result === null) {
+			return "";
+		}
+		if (typeof result !== "object") {
+			return String(result);
+		}
+		if (
+			Array.isArray(result) &&
+			result.every((item) => item === null || typeof item !== "object")
+		) {
+			return result.map(String).join("\n");
+		}
+		return yaml.dump(toSerializable(result), { skipInvalid: true }).trimEnd();
 	}
+}
 
-	examples(examples: T[]): ActionBuilder<T, R> {
-		this.commandExamples = examples;
-		return this;
+export class OutputFormatterRegistry {
+	private formatters: Map<string, OutputFormatter> = new Map();
+
+	constructor() {
+		this.registerFormatter(new JsonOutputFormatter());
+		this.registerFormatter(new YamlOutputFormatter());
+		this.registerFormatter(new TableOutputFormatter());
+		this.registerFormatter(new TextOutputFormatter());
 	}
 
-	aliases(aliases: string[]): ActionBuilder<T, R> {
-		this.commandAliases = aliases;
-		return this;
+	registerFormatter(formatter: OutputFormatter): void {
+		this.formatters.set(formatter.name, formatter);
 	}
 
-	use<
-		MiddlewareContext extends Record<string, unknown>,
-		MiddlewareMetadata extends Record<string, unknown>,
-	>(
-		middlewareFn:
-			| MiddlewareFunction<T, R, MiddlewareContext, MiddlewareMetadata>
-			| Middleware<MiddlewareContext, MiddlewareMetadata>,
-	): ActionBuilder<T, R> {
-		const newBuilder = new ActionBuilder<T, R>();
-		newBuilder.name = this.name;
-		newBuilder.description = this.description;
-		newBuilder.inputZodSchema = this.inputZodSchema;
-		newBuilder.outputZodSchema = this.outputZodSchema;
-		newBuilder.commandMetadata = this.commandMetadata;
-		newBuilder.commandAliases = this.commandAliases;
-		newBuilder.commandExamples = this.commandExamples;
-		newBuilder.commandSubcommands = this.commandSubcommands;
-		newBuilder.parentCommand = this.parentCommand;
-		newBuilder.cliBuilder = this.cliBuilder;
+	getFormatter(name: string): OutputFormatter | undefined {
+		return this.formatters.get(name);
+	}
 
-		// Copy existing middleware
-		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
+	getFormatterNames(): string[] {
+		return Array.from(this.formatters.keys());
+	}
+}
 
-		// Add new middleware
-		if (typeof middlewareFn === "function") {
-			// If it's a function, convert it to a middleware
-			const middleware = createMiddleware<
-				MiddlewareContext,
-				MiddlewareMetadata
-			>().define(middlewareFn);
-			newBuilder.middlewareFunctions.push(
-				middleware as unknown as Middleware<unknown, unknown>,
-			);
-		} else {
-			// If it's already a middleware object
-			newBuilder.middlewareFunctions.push(
-				middlewareFn as unknown as Middleware<unknown, unknown>,
-			);
+export interface Prompter {
+	text(message: string): Promise<string>;
+	password(message: string): Promise<string>;
+	confirm(message: string, defaultValue?: boolean): Promise<boolean>;
+	select(message: string, choices: string[]): Promise<string>;
+	multiSelect(message: string, choices: string[]): Promise<string[]>;
+}
+
+/**
+ * Forwards writes to another stream unless muted, so that a password prompt
+ * can stop readline from echoing what is typed
+ */
+class MutableOutput extends Writable {
+	muted = false;
+	private readonly target: NodeJS.WritableStream;
+
+	constructor(target: NodeJS.WritableStream) {
+		super();
+		this.target = target;
+	}
+
+	override _write(
+		chunk: Buffer,
+		_encoding: string,
+		callback: (error?: Error | null) => void,
+	): void {
+		if (!this.muted) {
+			this.target.write(chunk);
 		}
+		callback();
+	}
+}
 
-		return newBuilder;
+/**
+ * Prompts on the terminal using `node:readline`, writing to stderr so that
+ * stdout stays clean for command output. Pressing Ctrl+C rejects with a
+ * `UserAbortError`.
+ */
+export class ReadlinePrompter implements Prompter {
+	private readonly input: NodeJS.ReadableStream;
+	private readonly output: NodeJS.WritableStream;
+
+	constructor(
+		input: NodeJS.ReadableStream = process.stdin,
+		output: NodeJS.WritableStream = process.stderr,
+	) {
+		this.input = input;
+		this.output = output;
 	}
 
-	action<NewR>(handler: CommandHandler<T, NewR>): CommandDefinition<T, NewR> {
-		if (!this.name) {
-			throw new Error("Command name is required");
+	text(message: string): Promise<string> {
+		return this.ask(`${message}: `);
+	}
+
+	password(message: string): Promise<string> {
+		return this.ask(`${message}: `, true);
+	}
+
+	async confirm(message: string, defaultValue = false): Promise<boolean> {
+		const hint = defaultValue ? "Y/n" : "y/N";
+		let answer: boolean | undefined;
+
+		while (answer === undefined) {
+			const reply = (await this.ask(`${message} (${hint}): `))
+				.trim()
+				.toLowerCase();
+
+			if (reply === "") {
+				answer = defaultValue;
+			} else if (reply === "y" || reply === "yes") {
+				answer = true;
+			} else if (reply === "n" || reply === "no") {
+				answer = false;
+			}
 		}
 
-		if (!this.inputZodSchema) {
-			throw new Error("Command input schema is required");
+		return answer;
+	}
+
+	async select(message: string, choices: string[]): Promise<string> {
+		this.printChoices(message, choices);
+		let answer: string | undefined;
+
+		while (answer === undefined) {
+			const reply = await this.ask(`Select 1-${choices.length}: `);
+			answer = this.matchChoice(reply, choices);
 		}
 
-		// Create a wrapped handler that applies middleware
-		const wrappedHandler: CommandHandler<T, NewR> = async (args) => {
-			if (this.middlewareFunctions.length === 0) {
-				// No middleware, just call the handler directly
-				return handler(args);
+		return answer;
+	}
+
+	async multiSelect(message: string, choices: string[]): Promise<string[]> {
+		this.printChoices(message, choices);
+		let answers: string[] | undefined;
+
+		while (answers === undefined) {
+			const reply = await this.ask("Select one or more (comma-separated): ");
+			const parts = reply
+				.split(",")
+				.map((part) => part.trim())
+				.filter(Boolean);
+			const matched = parts.map((part) => this.matchChoice(part, choices));
+
+			if (matched.every((choice) => choice !== undefined)) {
+				answers = Array.from(new Set(matched as string[]));
 			}
+		}
 
-			let result: NewR;
-			let currentCtx = { ...args.context };
+		return answers;
+	}
 
-			// Apply middleware in sequence
-			const applyMiddleware = async (index: number): Promise<NewR> => {
-				if (index >= this.middlewareFunctions.length) {
-					// All middleware applied, call the handler
-					return handler({
-						...args,
-						context: currentCtx,
-					});
+	private printChoices(message: string, choices: string[]): void {
+		this.output.write(`${message}\n`);
+		choices.forEach((choice, index) => {
+			this.output.write(`  ${index + 1}) ${choice}\n`);
+		});
+	}
+
+	private matchChoice(reply: string, choices: string[]): string | undefined {
+		const trimmed = reply.trim();
+		const index = Number(trimmed);
+
+		if (Number.isInteger(index) && index >= 1 && index <= choices.length) {
+			return choices[index - 1];
+		}
+
+		return choices.find((choice) => choice === trimmed);
+	}
+
+	private ask(question: string, masked = false): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const output = new MutableOutput(this.output);
+			const rl = readline.createInterface({
+				input: this.input,
+				output,
+				terminal: true,
+			});
+			let answered = false;
+
+			rl.on("SIGINT", () => rl.close());
+			rl.on("close", () => {
+				if (!answered) {
+					this.output.write("\n");
+					reject(new UserAbortError());
 				}
+			});
 
-				const middleware = this.middlewareFunctions[index];
-				return middleware.execute({
-					parsedInput: args.parsedInput,
-					ctx: currentCtx,
-					metadata: this.commandMetadata,
-					handler: async ({ parsedInput, ctx }) => {
-						// Update the context for the next middleware or final handler
-						currentCtx = ctx as CommandContext;
-						return applyMiddleware(index + 1);
-					},
-				}) as Promise<NewR>;
-			};
+			rl.question(question, (answer) => {
+				answered = true;
+				rl.close();
+				if (masked) {
+					this.output.write("\n");
+				}
+				resolve(answer);
+			});
 
-			return applyMiddleware(0);
-		};
+			// Stop echoing once the question has been written
+			output.muted = masked;
+		});
+	}
+}
 
-		const command: CommandDefinition<T, NewR> = {
-			name: this.name,
-			description: this.description,
-			inputSchema: this.inputZodSchema,
-			outputSchema: this.outputZodSchema as unknown as
-				| z.ZodType<NewR>
-				| undefined,
-			metadata:
-				Object.keys(this.commandMetadata).length > 0
-					? this.commandMetadata
-					: undefined,
-			handler: wrappedHandler,
-			aliases: this.commandAliases,
-			examples: this.commandExamples,
-			subcommands: this.commandSubcommands,
-			parent: this.parentCommand,
-			middleware:
-				this.middlewareFunctions.length > 0
-					? this.middlewareFunctions
-					: undefined,
-		};
+/** Manifest file of a plugin directory */
+const PLUGIN_MANIFEST_FILE = "zod-command-plugin.json";
 
-		if (this.cliBuilder) {
-			this.cliBuilder.registerCommand(
-				command as unknown as CommandDefinition<unknown, unknown>,
-			);
+/** State file of the `plugins` commands, in the user config dir */
+const PLUGIN_STATE_FILE = "plugins.json";
+
+const PLUGIN_HOOKS: (keyof PluginEvents)[] = [
+	"afterConfigLoad",
+	"beforeValidation",
+	"beforeCommand",
+	"afterCommand",
+	"onError",
+	"shutdown",
+];
+
+/** package.json key that marks a package as a plugin */
+const PLUGIN_PACKAGE_KEY = "zod-command";
+
+/** Plugin package names: `zod-command-plugin-*` or `@scope/zod-command-plugin-*` */
+const PLUGIN_PACKAGE_PATTERN = /^(@[^/]+\/)?zod-command-plugin-/;
+
+/** `exports` conditions used to resolve a plugin's entry point, besides `default` */
+const PLUGIN_EXPORT_CONDITIONS = ["node", "import", "require", "default"];
+
+/**
+ * `node_modules` directories from `directory` up to the filesystem root,
+ * nearest first
+ */
+function getNodeModulesDirs(directory: string): string[] {
+	const dirs: string[] = [];
+	let current = path.resolve(directory);
+
+	while (true) {
+		const candidate = path.join(current, "node_modules");
+		if (fs.existsSync(candidate)) {
+			dirs.push(candidate);
 		}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return dirs;
+		}
+		current = parent;
+	}
+}
 
-		return command;
+/**
+ * Directory of an installed package, resolved from `directory` like
+ * `require` does
+ */
+function findPackageDir(name: string, directory: string): string | undefined {
+	return getNodeModulesDirs(directory)
+		.map((nodeModules) => path.join(nodeModules, name))
+		.find((packageDir) => fs.existsSync(path.join(packageDir, "package.json")));
+}
+
+function readPackageJson(packageDir: string): Record<string, unknown> {
+	return JSON.parse(
+		fs.readFileSync(path.join(packageDir, "package.json"), "utf-8"),
+	);
+}
+
+/**
+ * Installed plugin packages visible from `directory`, in name order within
+ * each `node_modules`, nearest first. A package shadowed by a nearer one of
+ * the same name is skipped.
+ */
+function findPluginPackages(directory: string): string[] {
+	const found = new Map<string, string>();
+
+	for (const nodeModules of getNodeModulesDirs(directory)) {
+		const names = fs
+			.readdirSync(nodeModules)
+			.filter((name) => !name.startsWith("."))
+			.flatMap((name) =>
+				name.startsWith("@")
+					? fs
+							.readdirSync(path.join(nodeModules, name))
+							.map((scoped) => `${name}/${scoped}`)
+					: [name],
+			)
+			.sort();
+
+		for (const name of names) {
+			const packageDir = path.join(nodeModules, name);
+			if (
+				found.has(name) ||
+				!fs.existsSync(path.join(packageDir, "package.json"))
+			) {
+				continue;
+			}
+			if (PLUGIN_PACKAGE_PATTERN.test(name)) {
+				found.set(name, packageDir);
+				continue;
+			}
+			try {
+				if (PLUGIN_PACKAGE_KEY in readPackageJson(packageDir)) {
+					found.set(name, packageDir);
+				}
+			} catch {
+				// Not a readable package; it cannot be a plugin either
+			}
+		}
 	}
 
-	sub(nameOrConfig: string | CommandConfig): ActionBuilder<unknown, unknown> {
-		if (typeof nameOrConfig === "string") {
-			const subBuilder = new ActionBuilder(nameOrConfig, "", this.name);
-			subBuilder.cliBuilder = this.cliBuilder;
+	return Array.from(found.values());
+}
 
-			// Internal representation uses colon delimiter
-			const fullName = this.name
-				? `${this.name}:${nameOrConfig}`
-				: nameOrConfig;
-			subBuilder.name = fullName;
+/**
+ * First target of an `exports` entry matching the plugin conditions
+ */
+function resolveExportTarget(target: unknown): string | undefined {
+	if (typeof target === "string") {
+		return target;
+	}
+	if (Array.isArray(target)) {
+		for (const item of target) {
+			const resolved = resolveExportTarget(item);
+			if (resolved) {
+				return resolved;
+			}
+		}
+		return undefined;
+	}
+	if (isPlainObject(target)) {
+		for (const [condition, value] of Object.entries(target)) {
+			const resolved = PLUGIN_EXPORT_CONDITIONS.includes(condition)
+				? resolveExportTarget(value)
+				: undefined;
+			if (resolved) {
+				return resolved;
+			}
+		}
+	}
+	return undefined;
+}
 
-			subBuilder.commandMetadata = { group: "default" };
+/**
+ * Entry point of a package: its `"."` export, then `main`, then `index.js`
+ */
+function resolvePackageEntry(packageJson: Record<string, unknown>): string {
+	const { exports } = packageJson;
+	const rootExport =
+		isPlainObject(exports) &&
+		Object.keys(exports).some((key) => key.startsWith("."))
+			? exports["."]
+			: exports;
+
+	return (
+		resolveExportTarget(rootExport) ??
+		(typeof packageJson.main === "string" ? packageJson.main : "index.js")
+	);
+}
 
-			// Inherit middleware from parent
-			subBuilder.middlewareFunctions = [...this.middlewareFunctions];
+/** Plugin state kept in `plugins.json` under the user config dir */
+const pluginStateSchema = z.object({
+	/** Names of plugins that are not loaded */
+	disabled: z.array(z.string()).default([]),
+	/** Directories of linked plugins, by plugin name */
+	linked: z.record(z.string()).default({}),
+	/** Installed plugins by plugin name: the source and install directory */
+	installed: z
+		.record(z.object({ source: z.string(), path: z.string() }))
+		.default({}),
+});
 
-			return subBuilder;
+type PluginState = z.infer<typeof pluginStateSchema>;
+
+/** A loaded or disabled plugin, as shown by `plugins list` and `plugins info` */
+export interface PluginDetails {
+	name: string;
+	version: string;
+	description?: string;
+	author?: string;
+	/** Directory the plugin was loaded from */
+	path: string;
+	enabled: boolean;
+	/** Commands the plugin registered, in `parent sub` form */
+	commands: string[];
+	/** Lifecycle hooks the plugin defines */
+	hooks: (keyof PluginEvents)[];
+}
+
+/**
+ * Manifest of a plugin directory: its `zod-command-plugin.json`, or else
+ * its package.json
+ */
+function readPluginManifest(pluginDir: string): PluginManifest {
+	const manifestPath = path.join(pluginDir, PLUGIN_MANIFEST_FILE);
+	if (fs.existsSync(manifestPath)) {
+		return pluginManifestSchema.parse(
+			JSON.parse(fs.readFileSync(manifestPath, "utf-8")),
+		);
+	}
+	return toPluginManifest(readPackageJson(pluginDir));
+}
+
+/**
+ * Plugin manifest from a package.json. Its `"zod-command"` key can override
+ * `name` and `main`.
+ */
+function toPluginManifest(
+	packageJson: Record<string, unknown>,
+): PluginManifest {
+	const options = isPlainObject(packageJson[PLUGIN_PACKAGE_KEY])
+		? packageJson[PLUGIN_PACKAGE_KEY]
+		: {};
+	const author = isPlainObject(packageJson.author)
+		? packageJson.author.name
+		: packageJson.author;
+
+	return pluginManifestSchema.parse({
+		name: options.name ?? packageJson.name,
+		version: packageJson.version ?? "0.0.0",
+		description: packageJson.description,
+		author,
+		main: options.main ?? resolvePackageEntry(packageJson),
+	});
+}
+
+interface TarEntry {
+	/** Path without the top-level directory, e.g. `lib/index.js` */
+	path: string;
+	type: "file" | "directory";
+	data: Buffer;
+}
+
+interface TarHeader {
+	path: string;
+	/** `0` for files, `5` for directories, `x`/`L` for long paths */
+	type: string;
+	size: number;
+}
+
+/**
+ * Fields of the 512-byte header of a tar entry
+ */
+function readTarHeader(header: Buffer): TarHeader {
+	const field = (start: number, length: number) =>
+		header
+			.subarray(start, start + length)
+			.toString("utf-8")
+			.split("\0")[0];
+	const prefix = field(345, 155);
+
+	return {
+		path: prefix ? `${prefix}/${field(0, 100)}` : field(0, 100),
+		type: field(156, 1) || "0",
+		size: Number.parseInt(field(124, 12).trim() || "0", 8),
+	};
+}
+
+/**
+ * Path set by a pax (`x`) or GNU (`L`) entry for the entry that follows it,
+ * used for paths longer than the header allows
+ */
+function readTarLongPath(type: string, body: Buffer): string | undefined {
+	return type === "x"
+		? /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString("utf-8"))?.[1]
+		: body.toString("utf-8").split("\0")[0];
+}
+
+/**
+ * Reads the files and directories of a gzipped tarball such as one made by
+ * `npm pack`. Links and other entry types are skipped.
+ */
+function readTarball(tarball: string): TarEntry[] {
+	const data = zlib.gunzipSync(fs.readFileSync(tarball));
+	const entries: TarEntry[] = [];
+	let offset = 0;
+	let longPath: string | undefined;
+
+	while (offset + 512 <= data.length) {
+		const block = data.subarray(offset, offset + 512);
+		if (block.every((byte) => byte === 0)) {
+			break;
 		}
-		const {
-			command,
-			description: cmdDesc,
-			group = "default",
-			...restMetadata
-		} = nameOrConfig;
 
-		const subBuilder = new ActionBuilder(command, cmdDesc || "", this.name);
+		const header = readTarHeader(block);
+		const body = data.subarray(offset + 512, offset + 512 + header.size);
+		offset += 512 + Math.ceil(header.size / 512) * 512;
+
+		if (header.type === "x" || header.type === "L") {
+			longPath = readTarLongPath(header.type, body);
+			continue;
+		}
+
+		const relative = (longPath ?? header.path)
+			.split("/")
+			.slice(1)
+			.join("/")
+			.replace(/\/$/, "");
+		longPath = undefined;
+
+		if (relative && (header.type === "0" || header.type === "5")) {
+			entries.push({
+				path: relative,
+				type: header.type === "5" ? "directory" : "file",
+				data: body,
+			});
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Whether `target` is below `directory`, not the directory itself
+ */
+function isInsideDirectory(directory: string, target: string): boolean {
+	const relative = path.relative(path.resolve(directory), path.resolve(target));
+	return (
+		relative !== "" &&
+		relative.split(path.sep)[0] !== ".." &&
+		!path.isAbsolute(relative)
+	);
+}
+
+function extractTarball(entries: TarEntry[], targetDir: string): void {
+	const root = path.resolve(targetDir);
+
+	for (const entry of entries) {
+		const target = path.resolve(root, entry.path);
+		if (!isInsideDirectory(root, target)) {
+			throw new Error(`Refusing to extract ${entry.path} outside ${root}`);
+		}
+		if (entry.type === "directory") {
+			fs.mkdirSync(target, { recursive: true });
+		} else {
+			fs.mkdirSync(path.dirname(target), { recursive: true });
+			fs.writeFileSync(target, entry.data);
+		}
+	}
+}
+
+function isTarball(source: string): boolean {
+	return /\.(tgz|tar\.gz)$/.test(source);
+}
+
+/**
+ * Directory name to install a plugin from a local directory or tarball
+ * under: its package name, or its plugin name if it has no package.json
+ */
+function readSourceName(source: string): string {
+	if (!isTarball(source)) {
+		return fs.existsSync(path.join(source, "package.json"))
+			? String(readPackageJson(source).name)
+			: readPluginManifest(source).name;
+	}
+
+	const entries = readTarball(source);
+	const packageJson = entries.find((entry) => entry.path === "package.json");
+	if (packageJson) {
+		return String(JSON.parse(packageJson.data.toString()).name);
+	}
+	const manifest = entries.find((entry) => entry.path === PLUGIN_MANIFEST_FILE);
+	if (!manifest) {
+		throw new Error(`No package.json or ${PLUGIN_MANIFEST_FILE} in ${source}`);
+	}
+	return pluginManifestSchema.parse(JSON.parse(manifest.data.toString())).name;
+}
+
+/**
+ * Runs npm, returning undefined if it is not installed
+ */
+function runNpm(
+	args: string[],
+): childProcess.SpawnSyncReturns<string> | undefined {
+	const result = childProcess.spawnSync(
+		process.platform === "win32" ? "npm.cmd" : "npm",
+		args,
+		{ encoding: "utf-8", shell: process.platform === "win32" },
+	);
+	return result.error ? undefined : result;
+}
+
+/**
+ * Dependencies recorded in the package.json of `pluginsRoot`, by the name
+ * npm installed them under
+ */
+function readPluginDependencies(pluginsRoot: string): Record<string, unknown> {
+	if (!fs.existsSync(path.join(pluginsRoot, "package.json"))) {
+		return {};
+	}
+	const { dependencies } = readPackageJson(pluginsRoot);
+	return isPlainObject(dependencies) ? dependencies : {};
+}
+
+/**
+ * Installs a package spec, directory or tarball into `pluginsRoot` with npm
+ * and returns the name it was installed under. Aliases, git and URL specs
+ * do not contain that name, so it is taken from the dependency npm records,
+ * unless `name` is already known from a local source.
+ */
+function installWithNpm(
+	pluginsRoot: string,
+	spec: string,
+	name?: string,
+): string {
+	const packageJsonPath = path.join(pluginsRoot, "package.json");
+	if (!fs.existsSync(packageJsonPath)) {
+		fs.writeFileSync(packageJsonPath, '{\n  "private": true\n}\n');
+	}
+	const before = readPluginDependencies(pluginsRoot);
+	const result = runNpm([
+		"install",
+		"--prefix",
+		pluginsRoot,
+		"--install-links",
+		"--no-audit",
+		"--no-fund",
+		spec,
+	]);
+	if (result?.status !== 0) {
+		throw new CommandError(
+			`npm install ${spec} failed${result?.stderr ? `:\n${result.stderr.trim()}` : ""}`,
+		);
+	}
+	if (name) {
+		return name;
+	}
+
+	const after = readPluginDependencies(pluginsRoot);
+	const changed = Object.keys(after).filter(
+		(dependency) => after[dependency] !== before[dependency],
+	);
+	// Reinstalling a registry package can leave package.json unchanged
+	const named = spec.replace(/^(@?[^@]+)@.*$/, "$1");
+	const installed = changed.length === 1 ? changed[0] : named;
+	if (!(installed in after)) {
+		throw new CommandError(
+			`Cannot tell which package npm installed for ${spec}`,
+			{ code: "INVALID_PLUGIN" },
+		);
+	}
+	return installed;
+}
+
+/**
+ * Replaces `installDir` with a copy of a plugin directory or the contents of
+ * a tarball, for when npm is not available
+ */
+function copyPlugin(source: string, installDir: string): void {
+	fs.rmSync(installDir, { recursive: true, force: true });
+	if (isTarball(source)) {
+		extractTarball(readTarball(source), installDir);
+	} else {
+		fs.cpSync(source, installDir, {
+			recursive: true,
+			filter: (file) => path.basename(file) !== ".git",
+		});
+	}
+}
+
+/**
+ * Removes a plugin installed under `pluginsRoot`, through npm when it is
+ * available so that its package.json forgets the plugin too
+ */
+function removeInstalledPlugin(pluginsRoot: string, installDir: string): void {
+	const nodeModules = path.join(pluginsRoot, "node_modules");
+	runNpm([
+		"uninstall",
+		"--prefix",
+		pluginsRoot,
+		path.relative(nodeModules, installDir).replace(/\\/g, "/"),
+	]);
+	fs.rmSync(installDir, { recursive: true, force: true });
+}
+
+export class PluginManager {
+	private plugins: Map<string, Plugin> = new Map();
+	private details: Map<string, PluginDetails> = new Map();
+	private state: PluginState | null = null;
+	private cli: CliBuilder;
+	private logger: Logger;
+
+	constructor(cli: CliBuilder, logger: Logger) {
+		this.cli = cli;
+		this.logger = logger;
+	}
+
+	/**
+	 * Loads plugins in the given order, by package name (resolved from
+	 * `node_modules` like `require`) or by path to a plugin or package
+	 * directory
+	 */
+	async loadPlugins(specifiers: string[], cwd = process.cwd()): Promise<void> {
+		for (const specifier of specifiers) {
+			const pluginDir =
+				specifier.startsWith(".") || path.isAbsolute(specifier)
+					? path.resolve(cwd, specifier)
+					: findPackageDir(specifier, cwd);
+
+			if (!pluginDir) {
+				this.logger.error(`Plugin package not found: ${specifier}`);
+				continue;
+			}
+
+			await this.loadPluginDir(pluginDir);
+		}
+	}
+
+	/**
+	 * Loads the plugins added with `plugins link` and `plugins install`, in
+	 * name order
+	 */
+	async loadInstalledPlugins(): Promise<void> {
+		const { linked, installed } = this.getState();
+		const pluginDirs: Record<string, string> = { ...linked };
+		for (const [name, { path: installDir }] of Object.entries(installed)) {
+			pluginDirs[name] = pluginDirs[name] ?? installDir;
+		}
+
+		for (const name of Object.keys(pluginDirs).sort()) {
+			if (!fs.existsSync(pluginDirs[name])) {
+				this.logger.warn(`Plugin ${name} not found: ${pluginDirs[name]}`);
+				continue;
+			}
+			await this.loadPluginDir(pluginDirs[name]);
+		}
+	}
+
+	/**
+	 * Loads plugins from installed packages named `zod-command-plugin-*` or
+	 * `@scope/zod-command-plugin-*`, or with a `"zod-command"` key in their
+	 * package.json
+	 */
+	async loadPluginsFromNodeModules(cwd = process.cwd()): Promise<void> {
+		try {
+			for (const packageDir of findPluginPackages(cwd)) {
+				await this.loadPackagePlugin(packageDir);
+			}
+		} catch (error) {
+			this.logger.error(
+				`Error loading plugins: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	async loadPluginsFromDirectory(pluginsDir: string): Promise<void> {
+		try {
+			if (!fs.existsSync(pluginsDir)) {
+				this.logger.warn(`Plugins directory not found: ${pluginsDir}`);
+				return;
+			}
+
+			const entries = fs.readdirSync(pluginsDir, { withFileTypes: true });
+			const pluginDirs = entries
+				.filter((entry) => entry.isDirectory())
+				.map((entry) => path.join(pluginsDir, entry.name))
+				.sort();
+
+			for (const pluginDir of pluginDirs) {
+				await this.loadPlugin(pluginDir);
+			}
+
+			this.logger.info(`Loaded ${this.plugins.size} plugins`);
+		} catch (error) {
+			this.logger.error(
+				`Error loading plugins: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	private async loadPlugin(pluginDir: string): Promise<void> {
+		try {
+			const manifestPath = path.join(pluginDir, PLUGIN_MANIFEST_FILE);
+
+			if (!fs.existsSync(manifestPath)) {
+				this.logger.warn(`Plugin manifest not found: ${manifestPath}`);
+				return;
+			}
+
+			const manifestContent = fs.readFileSync(manifestPath, "utf-8");
+			const manifest = pluginManifestSchema.parse(JSON.parse(manifestContent));
+
+			await this.registerPlugin(manifest, pluginDir);
+		} catch (error) {
+			this.logger.error(
+				`Error loading plugin from ${pluginDir}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Loads a plugin directory with a `zod-command-plugin.json`, or else an
+	 * npm package directory
+	 */
+	private async loadPluginDir(pluginDir: string): Promise<void> {
+		if (fs.existsSync(path.join(pluginDir, PLUGIN_MANIFEST_FILE))) {
+			await this.loadPlugin(pluginDir);
+		} else {
+			await this.loadPackagePlugin(pluginDir);
+		}
+	}
+
+	/**
+	 * Loads a plugin from an npm package. The manifest is taken from
+	 * package.json, and its `"zod-command"` key can override `name` and `main`.
+	 */
+	private async loadPackagePlugin(packageDir: string): Promise<void> {
+		try {
+			const manifest = toPluginManifest(readPackageJson(packageDir));
+			await this.registerPlugin(manifest, packageDir);
+		} catch (error) {
+			this.logger.error(
+				`Error loading plugin from ${packageDir}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	private async registerPlugin(
+		manifest: PluginManifest,
+		pluginDir: string,
+	): Promise<void> {
+		if (this.details.has(manifest.name)) {
+			this.logger.warn(`Plugin ${manifest.name} is already loaded`);
+			return;
+		}
+
+		const details: PluginDetails = {
+			name: manifest.name,
+			version: manifest.version,
+			description: manifest.description,
+			author: manifest.author,
+			path: pluginDir,
+			enabled: false,
+			commands: [],
+			hooks: [],
+		};
+
+		if (this.getState().disabled.includes(manifest.name)) {
+			this.details.set(manifest.name, details);
+			this.logger.debug(`Skipping disabled plugin: ${manifest.name}`);
+			return;
+		}
+
+		const mainPath = path.join(pluginDir, manifest.main);
+		if (!fs.existsSync(mainPath)) {
+			this.logger.error(`Plugin main file not found: ${mainPath}`);
+			return;
+		}
+
+		const pluginModule = await import(pathToFileURL(mainPath).href);
+		const plugin: Plugin = pluginModule.default || pluginModule;
+
+		if (!plugin || typeof plugin.initialize !== "function") {
+			this.logger.error(`Invalid plugin module: ${manifest.name}`);
+			return;
+		}
+
+		plugin.name = manifest.name;
+		plugin.version = manifest.version;
+		plugin.description = manifest.description;
+		plugin.author = manifest.author;
+
+		this.plugins.set(plugin.name, plugin);
+
+		const existingCommands = Array.from(this.cli.getCommands().keys());
+		await plugin.initialize(this.cli);
+
+		this.details.set(plugin.name, {
+			...details,
+			enabled: true,
+			commands: Array.from(this.cli.getCommands().keys())
+				.filter((name) => !existingCommands.includes(name))
+				.map((name) => name.replace(/:/g, " ")),
+			hooks: PLUGIN_HOOKS.filter((hook) => typeof plugin[hook] === "function"),
+		});
+
+		this.logger.info(`Loaded plugin: ${plugin.name} v${plugin.version}`);
+	}
+
+	getPlugin(name: string): Plugin | undefined {
+		return this.plugins.get(name);
+	}
+
+	/**
+	 * Awaits a lifecycle hook of every plugin that defines it, in load order
+	 */
+	async runHook<K extends keyof PluginEvents>(
+		hook: K,
+		event: PluginEvents[K],
+	): Promise<void> {
+		for (const plugin of this.getAllPlugins()) {
+			const handler = plugin[hook] as
+				| ((event: PluginEvents[K]) => void | Promise<void>)
+				| undefined;
+			await handler?.call(plugin, event);
+		}
+	}
+
+	getAllPlugins(): Plugin[] {
+		return Array.from(this.plugins.values());
+	}
+
+	/**
+	 * Loaded and disabled plugins, in load order
+	 */
+	getPluginDetails(): PluginDetails[] {
+		return Array.from(this.details.values());
+	}
+
+	/**
+	 * Built-in `plugins list|info|enable|disable|link|install|uninstall`
+	 * commands. Changes are saved to `plugins.json` in the user config dir
+	 * and apply from the next run. User commands of the same name are kept.
+	 */
+	registerCommands(): void {
+		const metadata = {
+			interactive: false,
+			serve: false,
+			outputFormat: "table",
+		};
+		const nameInput = z.object({
+			name: z.string().describe("Plugin name"),
+		});
+		const listPlugins = () =>
+			this.getPluginDetails().map((plugin) => ({
+				name: plugin.name,
+				version: plugin.version,
+				status: plugin.enabled ? "enabled" : "disabled",
+				commands: plugin.commands.join(", "),
+				path: plugin.path,
+			}));
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins",
+			description: "List plugins and the commands they add",
+			inputSchema: z.object({}),
+			metadata,
+			handler: listPlugins,
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:list",
+			description: "List plugins and the commands they add",
+			inputSchema: z.object({}),
+			parent: "plugins",
+			metadata,
+			handler: listPlugins,
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:info",
+			description: "Show the details of a plugin",
+			inputSchema: nameInput,
+			positional: ["name"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "yaml" },
+			handler: ({ parsedInput }) => {
+				const { name } = parsedInput as { name: string };
+				const details = this.details.get(this.getKnownPlugin(name));
+				if (!details) {
+					throw new CommandError(`Plugin ${name} is not loaded`, {
+						code: "UNKNOWN_PLUGIN",
+					});
+				}
+				return details;
+			},
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:enable",
+			description: "Load a disabled plugin again",
+			inputSchema: nameInput,
+			positional: ["name"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const name = this.getKnownPlugin(
+					(parsedInput as { name: string }).name,
+				);
+				const state = this.getState();
+				this.saveState({
+					...state,
+					disabled: state.disabled.filter((disabled) => disabled !== name),
+				});
+				return `Enabled plugin ${name}`;
+			},
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:disable",
+			description: "Stop loading a plugin without uninstalling it",
+			inputSchema: nameInput,
+			positional: ["name"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const name = this.getKnownPlugin(
+					(parsedInput as { name: string }).name,
+				);
+				const state = this.getState();
+				if (!state.disabled.includes(name)) {
+					this.saveState({ ...state, disabled: [...state.disabled, name] });
+				}
+				return `Disabled plugin ${name}`;
+			},
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:link",
+			description: "Load a plugin from a local directory, without copying it",
+			inputSchema: z.object({
+				path: z.string().describe("Plugin or package directory"),
+			}),
+			positional: ["path"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const pluginDir = path.resolve((parsedInput as { path: string }).path);
+				const { name } = readPluginManifest(pluginDir);
+				const state = this.getState();
+				this.saveState({
+					...state,
+					linked: { ...state.linked, [name]: pluginDir },
+				});
+				return `Linked plugin ${name} to ${pluginDir}`;
+			},
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:install",
+			description:
+				"Install a plugin from a local directory, a tarball or, with npm, a package name",
+			inputSchema: z.object({
+				source: z
+					.string()
+					.describe("Directory, .tgz file, or npm package name with npm"),
+			}),
+			positional: ["source"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const manifest = this.installPlugin(
+					(parsedInput as { source: string }).source,
+				);
+				return `Installed plugin ${manifest.name} v${manifest.version}`;
+			},
+		});
+
+		this.cli.registerBuiltinCommand({
+			name: "plugins:uninstall",
+			description: "Remove an installed or linked plugin",
+			inputSchema: nameInput,
+			positional: ["name"],
+			parent: "plugins",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const { name } = parsedInput as { name: string };
+				return this.uninstallPlugin(name);
+			},
+		});
+	}
+
+	/**
+	 * Installs a plugin under the user config dir: with npm if it is
+	 * available, otherwise by copying a directory or extracting a tarball.
+	 * Failures are reported as a `CommandError` and a partial install is
+	 * removed.
+	 */
+	private installPlugin(source: string): PluginManifest {
+		const localSource = fs.existsSync(source)
+			? path.resolve(source)
+			: undefined;
+		const pluginsRoot = path.join(this.getStateDir(), "plugins");
+		const usesNpm =
+			(!localSource ||
+				isTarball(localSource) ||
+				fs.existsSync(path.join(localSource, "package.json"))) &&
+			runNpm(["--version"])?.status === 0;
+
+		if (!(localSource || usesNpm)) {
+			throw new CommandError(
+				`Cannot install ${source}: it is not a local directory or tarball, and npm is not available`,
+				{ exitCode: EXIT_CODES.usage, code: "USAGE_ERROR" },
+			);
+		}
+
+		let installDir: string | undefined;
+		try {
+			installDir = this.placePlugin(source, localSource, usesNpm);
+			const manifest = readPluginManifest(installDir);
+			const state = this.getState();
+			this.saveState({
+				...state,
+				installed: {
+					...state.installed,
+					[manifest.name]: { source, path: installDir },
+				},
+			});
+			return manifest;
+		} catch (error) {
+			if (installDir) {
+				removeInstalledPlugin(pluginsRoot, installDir);
+			}
+			throw error instanceof CommandError
+				? error
+				: new CommandError(
+						`Cannot install ${source}: ${error instanceof Error ? error.message : String(error)}`,
+						{ code: "INVALID_PLUGIN" },
+					);
+		}
+	}
+
+	/**
+	 * Puts the plugin files in place under `node_modules` and returns their
+	 * directory
+	 */
+	private placePlugin(
+		source: string,
+		localSource: string | undefined,
+		usesNpm: boolean,
+	): string {
+		const pluginsRoot = path.join(this.getStateDir(), "plugins");
+		const sourceName = localSource ? readSourceName(localSource) : "";
+
+		if (!usesNpm) {
+			const installDir = this.getInstallDir(source, sourceName);
+			fs.mkdirSync(pluginsRoot, { recursive: true });
+			try {
+				copyPlugin(localSource as string, installDir);
+			} catch (error) {
+				fs.rmSync(installDir, { recursive: true, force: true });
+				throw error;
+			}
+			return installDir;
+		}
+
+		if (sourceName) {
+			this.getInstallDir(source, sourceName);
+		}
+		fs.mkdirSync(pluginsRoot, { recursive: true });
+		return this.getInstallDir(
+			source,
+			installWithNpm(pluginsRoot, localSource ?? source, sourceName),
+		);
+	}
+
+	/**
+	 * Directory a plugin named `name` is installed to, refusing names that
+	 * would place it outside `node_modules`
+	 */
+	private getInstallDir(source: string, name: string): string {
+		const nodeModules = path.join(
+			this.getStateDir(),
+			"plugins",
+			"node_modules",
+		);
+		const installDir = path.join(nodeModules, name);
+		if (!isInsideDirectory(nodeModules, installDir)) {
+			throw new CommandError(
+				`Cannot install ${source}: invalid package name ${name}`,
+				{ exitCode: EXIT_CODES.usage, code: "USAGE_ERROR" },
+			);
+		}
+		return installDir;
+	}
+
+	private uninstallPlugin(name: string): string {
+		const state = this.getState();
+		const { [name]: linkedDir, ...linked } = state.linked;
+		const { [name]: installed, ...remaining } = state.installed;
+
+		if (!(linkedDir || installed)) {
+			throw new CommandError(
+				`Plugin ${name} is not installed or linked.${formatSuggestions(
+					findSuggestions(name, [
+						...Object.keys(state.linked),
+						...Object.keys(state.installed),
+					]),
+				)}`,
+				{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_PLUGIN" },
+			);
+		}
+
+		if (installed) {
+			const pluginsRoot = path.join(this.getStateDir(), "plugins");
+			const nodeModules = path.join(pluginsRoot, "node_modules");
+			// plugins.json is user-editable, so never remove anything else
+			if (!isInsideDirectory(nodeModules, installed.path)) {
+				throw new CommandError(
+					`Refusing to remove ${installed.path}: it is outside ${nodeModules}`,
+					{ code: "INVALID_PLUGIN_PATH" },
+				);
+			}
+			removeInstalledPlugin(pluginsRoot, installed.path);
+		}
+
+		this.saveState({
+			disabled: state.disabled.filter((disabled) => disabled !== name),
+			linked,
+			installed: remaining,
+		});
+		return installed ? `Uninstalled plugin ${name}` : `Unlinked plugin ${name}`;
+	}
+
+	/**
+	 * Returns `name` if it is a loaded, disabled, linked or installed plugin,
+	 * and throws with suggestions otherwise
+	 */
+	private getKnownPlugin(name: string): string {
+		const state = this.getState();
+		const known = [
+			...Array.from(this.details.keys()),
+			...state.disabled,
+			...Object.keys(state.linked),
+			...Object.keys(state.installed),
+		];
+
+		if (!known.includes(name)) {
+			throw new CommandError(
+				`Unknown plugin: ${name}.${formatSuggestions(findSuggestions(name, known))}`,
+				{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_PLUGIN" },
+			);
+		}
+		return name;
+	}
+
+	private getStateDir(): string {
+		return getUserConfigDir(this.cli.getMetadata().name);
+	}
+
+	private getState(): PluginState {
+		if (!this.state) {
+			const statePath = path.join(this.getStateDir(), PLUGIN_STATE_FILE);
+			try {
+				this.state = pluginStateSchema.parse(
+					fs.existsSync(statePath)
+						? JSON.parse(fs.readFileSync(statePath, "utf-8"))
+						: {},
+				);
+			} catch (error) {
+				this.logger.warn(
+					`Ignoring invalid plugin state in ${statePath}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				this.state = pluginStateSchema.parse({});
+			}
+		}
+		return this.state;
+	}
+
+	private saveState(state: PluginState): void {
+		fs.mkdirSync(this.getStateDir(), { recursive: true });
+		fs.writeFileSync(
+			path.join(this.getStateDir(), PLUGIN_STATE_FILE),
+			`${JSON.stringify(state, null, 2)}\n`,
+		);
+		this.state = state;
+	}
+}
+
+/** Extensions tried for `.<name>rc.<ext>` and `<name>.config.<ext>` */
+const CONFIG_EXTENSIONS = [
+	".json",
+	".yaml",
+	".yml",
+	".toml",
+	".ini",
+	".js",
+	".mjs",
+	".cjs",
+	".ts",
+	".mts",
+	".cts",
+];
+
+/**
+ * `maxResults` and `max-results` become `MAX_RESULTS`
+ */
+function toConstantCase(key: string): string {
+	return key
+		.replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+		.replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+		.replace(/[^A-Za-z0-9]+/g, "_")
+		.toUpperCase();
+}
+
+/**
+ * Parses an environment variable or `--set` value according to the config
+ * field's type. Arrays, tuples, records and objects are read as JSON.
+ */
+function parseConfigString(
+	schema: z.ZodTypeAny,
+	raw: string,
+	label: string,
+): unknown {
+	const inner = unwrapSchema(schema);
+
+	if (
+		inner instanceof z.ZodArray ||
+		inner instanceof z.ZodTuple ||
+		inner instanceof z.ZodRecord ||
+		inner instanceof z.ZodObject
+	) {
+		try {
+			return coerceArgValue(schema, JSON.parse(raw));
+		} catch (error) {
+			throw new ConfigError(
+				`${label} must be JSON: ${(error as Error).message}`,
+			);
+		}
+	}
+
+	return coerceArgValue(schema, raw);
+}
+
+/**
+ * Sets a dotted key such as `database.host`, creating parent objects
+ */
+function setConfigValue(
+	config: ConfigObject,
+	key: string,
+	value: unknown,
+): void {
+	const segments = key.split(".");
+	let current = config;
+
+	for (const segment of segments.slice(0, -1)) {
+		if (!isPlainObject(current[segment])) {
+			current[segment] = {};
+		}
+		current = current[segment] as ConfigObject;
+	}
+
+	const last = segments[segments.length - 1];
+	current[last] =
+		isPlainObject(current[last]) && isPlainObject(value)
+			? { ...current[last], ...value }
+			: value;
+}
+
+/**
+ * Fills the input fields a command maps to config keys with `configDefaults`,
+ * unless they were passed. Returns a copy; `input` is not modified.
+ */
+function applyConfigDefaults(
+	command: CommandDefinition<unknown, unknown>,
+	input: unknown,
+	config: unknown,
+): unknown {
+	if (
+		!(command.configDefaults && (input === undefined || isPlainObject(input)))
+	) {
+		return input;
+	}
+
+	let result = (input ?? {}) as ConfigObject;
+	for (const [field, key] of Object.entries(command.configDefaults)) {
+		const value = getConfigValue(config, key);
+		if (value !== undefined && getConfigValue(result, field) === undefined) {
+			result = withFieldValue(result, field.split("."), value);
+		}
+	}
+	return result;
+}
+
+function withFieldValue(
+	target: ConfigObject,
+	[segment, ...rest]: string[],
+	value: unknown,
+): ConfigObject {
+	const current = target[segment];
+	return {
+		...target,
+		[segment]:
+			rest.length === 0
+				? value
+				: withFieldValue(isPlainObject(current) ? current : {}, rest, value),
+	};
+}
+
+function toConfigError(error: unknown): ConfigError {
+	return error instanceof ConfigError
+		? error
+		: new ConfigError(
+				`Error loading configuration: ${error instanceof Error ? error.message : String(error)}`,
+			);
+}
+
+/**
+ * Keys whose values differ between two configs, compared leaf by leaf
+ */
+function diffConfig(previous: unknown, current: unknown): ConfigChange[] {
+	const before = flattenConfig(previous);
+	const after = flattenConfig(current);
+	const keys = Array.from(
+		new Set([...Object.keys(before), ...Object.keys(after)]),
+	).sort();
+
+	return keys
+		.filter(
+			(key) =>
+				JSON.stringify(toSerializable(before[key])) !==
+				JSON.stringify(toSerializable(after[key])),
+		)
+		.map((key) => ({ key, previous: before[key], current: after[key] }));
+}
+
+/**
+ * Dotted paths of the fields marked with `fieldMeta(schema, { secret: true })`
+ */
+function getSecretPaths(
+	shape: Record<string, z.ZodTypeAny>,
+	prefix = "",
+): string[] {
+	return Object.entries(shape).flatMap(([key, schema]) => {
+		const fieldPath = `${prefix}${key}`;
+		if (getFieldMeta(schema).secret) {
+			return [fieldPath];
+		}
+		const nestedShape = getNestedShape(schema);
+		return nestedShape ? getSecretPaths(nestedShape, `${fieldPath}.`) : [];
+	});
+}
+
+/**
+ * Config key segments of a Zod issue path, up to the first array index
+ */
+function getConfigKeyPath(issuePath: (string | number)[]): string[] {
+	const index = issuePath.findIndex((segment) => typeof segment === "number");
+	return (index === -1 ? issuePath : issuePath.slice(0, index)).map(String);
+}
+
+function deleteConfigValue(config: ConfigObject, keyPath: string[]): void {
+	let current: unknown = config;
+	for (const segment of keyPath.slice(0, -1)) {
+		current = isPlainObject(current) ? current[segment] : undefined;
+	}
+	if (isPlainObject(current) && keyPath.length > 0) {
+		delete current[keyPath[keyPath.length - 1]];
+	}
+}
+
+/**
+ * Reads a dotted key such as `database.host` from a config object
+ */
+function getConfigValue(config: unknown, key: string): unknown {
+	return key
+		.split(".")
+		.reduce<unknown>(
+			(value, segment) => (isPlainObject(value) ? value[segment] : undefined),
+			config,
+		);
+}
+
+/**
+ * The file or `$VARIABLE` a config value came from
+ */
+function describeConfigSource(
+	source: ConfigValueSource | undefined,
+): string | undefined {
+	return source?.file ?? (source?.variable ? `$${source.variable}` : undefined);
+}
+
+/**
+ * 1-based line and column of a character offset
+ */
+function getTextLocation(
+	content: string,
+	offset: number,
+): { line: number; column: number } {
+	const lines = content.slice(0, offset).split("\n");
+	return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Best-effort line and column of a dotted key in a JSON or YAML file, found
+ * by searching for each key segment after the previous one
+ */
+function locateConfigKey(
+	file: string,
+	keyPath: string[],
+): { line: number; column: number } | undefined {
+	let content: string;
+	try {
+		content = fs.readFileSync(file, "utf-8");
+	} catch {
+		return undefined;
+	}
+
+	const isJson =
+		path.extname(file) === ".json" || content.trimStart().startsWith("{");
+	let offset = 0;
+	let found: number | undefined;
+
+	for (const segment of keyPath) {
+		const escaped = segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const pattern = isJson
+			? new RegExp(`"${escaped}"\\s*:`, "g")
+			: new RegExp(`^[ \\t-]*["']?${escaped}["']?[ \\t]*:`, "gm");
+		pattern.lastIndex = offset;
+		const match = pattern.exec(content);
+		if (!match) {
+			break;
+		}
+		found = match.index + match[0].indexOf(segment) - (isJson ? 1 : 0);
+		offset = match.index + match[0].length;
+	}
+
+	return found === undefined ? undefined : getTextLocation(content, found);
+}
+
+function getSystemConfigDir(name: string): string {
+	return process.platform === "win32"
+		? path.join(process.env.PROGRAMDATA || "C:\\ProgramData", name)
+		: path.join("/etc", name);
+}
+
+/**
+ * Per-user config directory: `$XDG_CONFIG_HOME/<name>`, by default
+ * `~/.config/<name>`
+ */
+function getUserConfigDir(name: string): string {
+	return path.join(
+		process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+		name,
+	);
+}
+
+/**
+ * Flattens nested config objects into dotted keys. Arrays and other
+ * non-object values are leaves.
+ */
+function flattenConfig(config: unknown, prefix = ""): Record<string, unknown> {
+	if (!isPlainObject(config)) {
+		return {};
+	}
+
+	return Object.entries(config).reduce<Record<string, unknown>>(
+		(flattened, [key, value]) =>
+			Object.assign(
+				flattened,
+				isPlainObject(value)
+					? flattenConfig(value, `${prefix}${key}.`)
+					: { [`${prefix}${key}`]: value },
+			),
+		{},
+	);
+}
+
+export class ConfigManager<T> {
+	private schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+	private configFiles: string[];
+	private envPrefix: string;
+	private defaults: Partial<T>;
+	private logger: Logger;
+	private config: T | null = null;
+	private loadedFiles: { layer: ConfigLayer; file: string }[] = [];
+	private sources = new Map<string, ConfigValueSource[]>();
+	private envVariables = new Map<string, string>();
+	private loaderRegistry: ConfigLoaderRegistry;
+	private secretResolvers: SecretResolverRegistry;
+	private secretPaths: string[];
+	private discover: boolean;
+	private name: string;
+	private validation: ConfigValidationPolicy;
+	private lastLoad: {
+		commandLineArgs: Record<string, unknown>;
+		options: LoadConfigOptions;
+	} = { commandLineArgs: {}, options: {} };
+	// Listeners are stored as `unknown` so that ConfigManager<T> stays
+	// assignable to ConfigManager<unknown>
+	private watchListeners = new Set<ConfigWatchListener<unknown>>();
+	private fileWatchers: fs.FSWatcher[] = [];
+	private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+	private reloading: Promise<void> = Promise.resolve();
+
+	constructor(options: ConfigOptions<T>, logger: Logger) {
+		this.schema = options.schema;
+		this.configFiles = options.configFiles || [];
+		this.envPrefix = options.envPrefix || "";
+		this.defaults = options.defaults || {};
+		this.discover = options.discover ?? false;
+		this.name = options.name || "cli";
+		this.validation = options.validation ?? "strict";
+		this.logger = logger;
+		this.loaderRegistry = new ConfigLoaderRegistry();
+		for (const loader of options.loaders || []) {
+			this.loaderRegistry.registerLoader(loader);
+		}
+		this.secretResolvers = new SecretResolverRegistry();
+		for (const resolver of options.secretResolvers || []) {
+			this.secretResolvers.registerResolver(resolver);
+		}
+		this.secretPaths = getSecretPaths(getObjectShape(this.schema) || {});
+	}
+
+	registerLoader(loader: ConfigLoader): void {
+		this.loaderRegistry.registerLoader(loader);
+	}
+
+	registerSecretResolver(resolver: SecretResolver): void {
+		this.secretResolvers.registerResolver(resolver);
+	}
+
+	/**
+	 * Whether a dotted config key is, or is inside, a field marked secret
+	 */
+	isSecret(key: string): boolean {
+		return this.secretPaths.some(
+			(secretPath) => key === secretPath || key.startsWith(`${secretPath}.`),
+		);
+	}
+
+	/**
+	 * Copy of a config value with secret fields replaced by `REDACTED`. `key`
+	 * is the dotted path of `value` within the config.
+	 */
+	redact(value: unknown, key = ""): unknown {
+		if (key && this.isSecret(key)) {
+			return value === undefined ? value : REDACTED;
+		}
+		if (!isPlainObject(value)) {
+			return value;
+		}
+		return Object.fromEntries(
+			Object.entries(value).map(([name, child]) => [
+				name,
+				this.redact(child, key ? `${key}.${name}` : name),
+			]),
+		);
+	}
+
+	/**
+	 * Parses `key=value` overrides from `--set` into the `cli` layer argument
+	 * of `loadConfig`. Values are parsed like environment variables.
+	 */
+	parseOverrides(overrides: string[]): Record<string, unknown> {
+		const shape = getObjectShape(this.schema) || {};
+		const config: ConfigObject = {};
+
+		for (const override of overrides) {
+			const separator = override.indexOf("=");
+			if (separator === -1) {
+				throw new CommandError(
+					`Invalid --set value: ${override}. Expected key=value.`,
+					{ exitCode: EXIT_CODES.usage, code: "INVALID_CONFIG_OVERRIDE" },
+				);
+			}
+
+			const key = override.slice(0, separator);
+			const raw = override.slice(separator + 1);
+			const schema = key
+				.split(".")
+				.some((segment) => UNSAFE_KEYS.includes(segment))
+				? undefined
+				: getSchemaAtPath(shape, key);
+			if (!schema) {
+				throw new CommandError(
+					`Unknown config key: ${key}.${formatSuggestions(findSuggestions(key, getFieldPaths(shape)))}`,
+					{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_CONFIG_KEY" },
+				);
+			}
+
+			try {
+				setConfigValue(
+					config,
+					key,
+					parseConfigString(schema, raw, `--set ${key}`),
+				);
+			} catch (error) {
+				throw this.isSecret(key) && raw
+					? new ConfigError((error as Error).message.split(raw).join(REDACTED))
+					: error;
+			}
+		}
+
+		return config;
+	}
+
+	async loadConfig(
+		commandLineArgs: Record<string, unknown> = {},
+		options: LoadConfigOptions = {},
+	): Promise<T> {
+		this.lastLoad = { commandLineArgs, options };
+
+		try {
+			return await this.load(commandLineArgs, options);
+		} catch (error) {
+			const configError = toConfigError(error);
+			const defaultConfig = this.schema.safeParse(this.defaults);
+			if (this.validation !== "fallback" || !defaultConfig.success) {
+				throw configError;
+			}
+
+			for (const line of configError.message.split("\n")) {
+				this.logger.error(line);
+			}
+			this.logger.error("Falling back to the default configuration");
+
+			this.config = defaultConfig.data;
+			return defaultConfig.data;
+		}
+	}
+
+	/**
+	 * Watch every config file used by the last load and reload when one of
+	 * them changes. Files created later, such as a newly discovered rc file,
+	 * are not picked up. `listener` receives the keys that changed, or the
+	 * error of a failed reload, in which case the last valid config is kept.
+	 * Returns a function that unsubscribes; watching stops with the last
+	 * listener.
+	 */
+	watch(listener: ConfigWatchListener<T>): () => void {
+		if (!this.config) {
+			throw new Error("Configuration not loaded");
+		}
+
+		this.watchListeners.add(listener as ConfigWatchListener<unknown>);
+		if (this.fileWatchers.length === 0) {
+			this.watchFiles();
+		}
+
+		return () => {
+			this.watchListeners.delete(listener as ConfigWatchListener<unknown>);
+			if (this.watchListeners.size === 0) {
+				this.unwatchFiles();
+			}
+		};
+	}
+
+	/**
+	 * Loads, merges, resolves and validates every layer, throwing on failure
+	 */
+	private async load(
+		commandLineArgs: Record<string, unknown>,
+		options: LoadConfigOptions,
+	): Promise<T> {
+		let configData = {} as Partial<T>;
+		this.sources = new Map();
+
+		for (const { layer, file, data } of await this.loadLayers(
+			commandLineArgs,
+			options,
+		)) {
+			configData = this.mergeConfig(configData, data as Partial<T>);
+			for (const [key, value] of Object.entries(flattenConfig(data))) {
+				const variable = layer === "env" ? this.getEnvVariable(key) : undefined;
+				this.sources.set(key, [
+					...(this.sources.get(key) || []),
+					{ layer, file, variable, value },
+				]);
+			}
+		}
+
+		this.config = this.validate(await this.resolveSecrets(configData));
+		this.logger.debug(
+			`Resolved config: ${JSON.stringify(this.redact(toSerializable(this.config)))}`,
+		);
+		return this.config;
+	}
+
+	private watchFiles(): void {
+		for (const { file } of this.loadedFiles) {
+			try {
+				const watcher = fs.watch(file, () => this.scheduleReload());
+				watcher.unref();
+				this.fileWatchers.push(watcher);
+			} catch (error) {
+				this.logger.warn(
+					`Cannot watch config file ${file}: ${(error as Error).message}`,
+				);
+			}
+		}
+	}
+
+	private unwatchFiles(): void {
+		for (const watcher of this.fileWatchers) {
+			watcher.close();
+		}
+		this.fileWatchers = [];
+		if (this.reloadTimer) {
+			clearTimeout(this.reloadTimer);
+			this.reloadTimer = null;
+		}
+	}
+
+	private scheduleReload(): void {
+		if (this.reloadTimer) {
+			clearTimeout(this.reloadTimer);
+		}
+		this.reloadTimer = setTimeout(() => {
+			this.reloadTimer = null;
+			this.reloading = this.reloading.then(() => this.reload());
+		}, CONFIG_RELOAD_DELAY_MS);
+		this.reloadTimer.unref();
+	}
+
+	/**
+	 * Reloads with the arguments of the last `loadConfig` call and notifies
+	 * watch listeners. Files are watched again afterwards, since editors
+	 * often replace a file instead of writing to it.
+	 */
+	private async reload(): Promise<void> {
+		if (this.watchListeners.size === 0) {
+			return;
+		}
+
+		const previous = {
+			config: this.config as T,
+			sources: this.sources,
+			loadedFiles: this.loadedFiles,
+			envVariables: this.envVariables,
+		};
+		let event: ConfigWatchEvent<T>;
+
+		try {
+			const config = await this.load(
+				this.lastLoad.commandLineArgs,
+				this.lastLoad.options,
+			);
+			const changes = diffConfig(previous.config, config);
+			if (changes.length === 0) {
+				this.resetWatchers();
+				return;
+			}
+			this.logger.debug(
+				`Config reloaded, changed: ${changes.map((change) => change.key).join(", ")}`,
+			);
+			event = {
+				type: "change",
+				config,
+				previous: previous.config,
+				changes: changes.map((change) => ({
+					key: change.key,
+					previous: this.redact(change.previous, change.key),
+					current: this.redact(change.current, change.key),
+				})),
+			};
+		} catch (error) {
+			this.config = previous.config;
+			this.sources = previous.sources;
+			this.loadedFiles = previous.loadedFiles;
+			this.envVariables = previous.envVariables;
+
+			const configError = toConfigError(error);
+			for (const line of configError.message.split("\n")) {
+				this.logger.warn(line);
+			}
+			this.logger.warn("Keeping the last valid configuration");
+			event = { type: "error", config: previous.config, error: configError };
+		}
+
+		this.resetWatchers();
+		for (const listener of Array.from(this.watchListeners)) {
+			try {
+				listener(event);
+			} catch (error) {
+				this.logger.error(
+					`Config watch listener failed: ${(error as Error).message}`,
+				);
+			}
+		}
+	}
+
+	private resetWatchers(): void {
+		for (const watcher of this.fileWatchers) {
+			watcher.close();
+		}
+		this.fileWatchers = [];
+		this.watchFiles();
+	}
+
+	/**
+	 * Replaces references such as `dotenv:API_TOKEN` in secret fields with the
+	 * secret they point to
+	 */
+	private async resolveSecrets(configData: Partial<T>): Promise<Partial<T>> {
+		for (const secretPath of this.secretPaths) {
+			const reference = getConfigValue(configData, secretPath);
+			const resolver =
+				typeof reference === "string"
+					? this.secretResolvers.getResolver(reference)
+					: undefined;
+			if (!resolver) {
+				continue;
+			}
+
+			try {
+				setConfigValue(
+					configData as ConfigObject,
+					secretPath,
+					await resolver.resolve(reference as string),
+				);
+			} catch (error) {
+				const resolveError = new ConfigError(
+					`Cannot resolve secret ${secretPath} from ${reference}: ${(error as Error).message}`,
+					{ file: this.getSource(secretPath)?.file },
+				);
+				if (this.validation !== "warn") {
+					throw resolveError;
+				}
+				this.logger.warn(resolveError.message);
+				deleteConfigValue(configData as ConfigObject, secretPath.split("."));
+			}
+		}
+
+		return configData;
+	}
+
+	/**
+	 * Validates merged config. With the `warn` policy, invalid values are
+	 * reported and removed so that their schema defaults apply.
+	 */
+	private validate(configData: Partial<T>): T {
+		const result = this.schema.safeParse(configData);
+		if (result.success) {
+			return result.data;
+		}
+
+		const error = this.toConfigError(result.error);
+		if (this.validation !== "warn") {
+			throw error;
+		}
+
+		for (const line of error.message.split("\n")) {
+			this.logger.warn(line);
+		}
+		this.logger.warn("Ignoring the invalid values above");
+
+		const pruned = this.mergeConfig({} as Partial<T>, configData);
+		for (const issue of result.error.issues) {
+			deleteConfigValue(pruned as ConfigObject, getConfigKeyPath(issue.path));
+		}
+
+		const retry = this.schema.safeParse(pruned);
+		if (!retry.success) {
+			throw this.toConfigError(retry.error);
+		}
+		return retry.data;
+	}
+
+	/**
+	 * Describes validation issues together with the file, line and column, or
+	 * the environment variable, that supplied each invalid value
+	 */
+	private toConfigError(error: z.ZodError): ConfigError {
+		const issues = error.issues.map((issue): ConfigIssue => {
+			const keyPath = getConfigKeyPath(issue.path);
+			const source = this.getSource(keyPath.join("."));
+			const location = source?.file
+				? locateConfigKey(
+						source.file,
+						path.basename(source.file) === "package.json"
+							? [this.name, ...keyPath]
+							: keyPath,
+					)
+				: undefined;
+
+			const rawValue = source?.value;
+			return {
+				path: issue.path.join("."),
+				message:
+					this.isSecret(keyPath.join(".")) &&
+					typeof rawValue === "string" &&
+					rawValue
+						? issue.message.split(rawValue).join(REDACTED)
+						: issue.message,
+				file: source?.file,
+				variable: source?.variable,
+				...location,
+			};
+		});
+
+		const lines = issues.map((issue) => {
+			const origin = issue.file
+				? formatConfigLocation(issue)
+				: issue.variable && `$${issue.variable}`;
+			return `- ${issue.path || "(root)"}: ${issue.message}${origin ? ` (${origin})` : ""}`;
+		});
+
+		return new ConfigError(["Invalid configuration:", ...lines].join("\n"), {
+			...pickLocation(issues[0] ?? {}),
+			issues,
+		});
+	}
+
+	getConfig(): T {
+		if (!this.config) {
+			throw new Error("Configuration not loaded");
+		}
+		return this.config;
+	}
+
+	/**
+	 * Path of the highest-precedence config file used by the last load, if any
+	 */
+	getConfigFile(): string | undefined {
+		return this.loadedFiles[this.loadedFiles.length - 1]?.file;
+	}
+
+	/**
+	 * Every config file used by the last load, from lowest to highest precedence
+	 */
+	getLoadedFiles(): { layer: ConfigLayer; file: string }[] {
+		return this.loadedFiles;
+	}
+
+	/**
+	 * Every value supplied for a dotted config key (or the keys below it),
+	 * from lowest to highest precedence. The last entry is the one in effect;
+	 * keys filled only by schema defaults have no entries.
+	 */
+	explain(key: string): (ConfigValueSource & { key: string })[] {
+		return Array.from(this.sources.entries())
+			.filter(([path]) => path === key || path.startsWith(`${key}.`))
+			.flatMap(([path, sources]) =>
+				sources.map((source) => ({ key: path, ...source })),
+			);
+	}
+
+	/**
+	 * Source of the value in effect for a dotted config key
+	 */
+	getSource(key: string): ConfigValueSource | undefined {
+		const sources = this.sources.get(key);
+		return sources?.[sources.length - 1];
+	}
+
+	/**
+	 * Reads config fields from environment variables. Names are derived from
+	 * the schema, e.g. `database.maxConnections` is read from
+	 * `<envPrefix>DATABASE_MAX_CONNECTIONS`, unless the field sets its own
+	 * name with `fieldMeta(schema, { env })`. Values are parsed according to
+	 * the field type, with JSON for arrays and objects.
+	 */
+	private loadFromEnv(): Partial<T> {
+		const shape = getObjectShape(this.schema);
+		this.envVariables = new Map();
+
+		if (!shape) {
+			return {};
+		}
+
+		const mapping = this.getEnvMapping(shape, this.envPrefix || undefined);
+		const config = this.readEnv(process.env, shape, mapping, this.envVariables);
+
+		if (this.envPrefix) {
+			for (const variable of Object.keys(process.env)) {
+				if (
+					variable.startsWith(this.envPrefix) &&
+					!mapping.has(variable) &&
+					!(
+						variable.endsWith("_FILE") &&
+						mapping.has(variable.slice(0, -"_FILE".length))
+					)
+				) {
+					this.logger.debug(
+						`Ignoring environment variable ${variable}: no matching config key`,
+					);
+				}
+			}
+		}
+
+		return config as Partial<T>;
+	}
+
+	/**
+	 * Reads the mapped variables of `env` into a config object, recording the
+	 * variable each field was read from in `variables`
+	 */
+	private readEnv(
+		env: Record<string, string | undefined>,
+		shape: Record<string, z.ZodTypeAny>,
+		mapping: Map<string, string[]>,
+		variables: Map<string, string>,
+	): ConfigObject {
+		const config: ConfigObject = {};
+
+		for (const [variable, fieldPaths] of Array.from(mapping.entries())) {
+			const read = this.readEnvVariable(env, variable, fieldPaths);
+			if (!read) {
+				continue;
+			}
+
+			if (fieldPaths.length > 1) {
+				this.logger.warn(
+					`Ignoring ambiguous environment variable ${variable}: it matches ${fieldPaths.join(", ")}. Give one of them an explicit name with fieldMeta(schema, { env }).`,
+				);
+				continue;
+			}
+
+			const [fieldPath] = fieldPaths;
+			const parsed = this.parseEnvVariable(
+				shape,
+				fieldPath,
+				read.raw,
+				variable,
+			);
+			if (parsed) {
+				setConfigValue(config, fieldPath, parsed.value);
+				variables.set(fieldPath, read.variable);
+			}
+		}
+
+		return config;
+	}
+
+	/**
+	 * Raw value of a mapped variable. Secret fields are read from the file
+	 * named by `<variable>_FILE` when the variable itself is unset.
+	 */
+	private readEnvVariable(
+		env: Record<string, string | undefined>,
+		variable: string,
+		fieldPaths: string[],
+	): { raw: string; variable: string } | undefined {
+		const fileVariable = `${variable}_FILE`;
+		const fromFile =
+			env[variable] === undefined &&
+			env[fileVariable] !== undefined &&
+			fieldPaths.every((fieldPath) => this.isSecret(fieldPath));
+
+		if (!fromFile) {
+			const raw = env[variable];
+			return raw === undefined ? undefined : { raw, variable };
+		}
+
+		try {
+			return {
+				raw: readSecretFile(env[fileVariable] as string),
+				variable: fileVariable,
+			};
+		} catch (error) {
+			this.handleEnvError(
+				new ConfigError(
+					`Cannot read ${fileVariable}: ${(error as Error).message}`,
+				),
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Parses a variable by its field's type. Failures are handled by the
+	 * validation policy, with secret values removed from the message.
+	 */
+	private parseEnvVariable(
+		shape: Record<string, z.ZodTypeAny>,
+		fieldPath: string,
+		raw: string,
+		variable: string,
+	): { value: unknown } | undefined {
+		try {
+			return {
+				value: parseConfigString(
+					getSchemaAtPath(shape, fieldPath) as z.ZodTypeAny,
+					raw,
+					`Environment variable ${variable}`,
+				),
+			};
+		} catch (error) {
+			this.handleEnvError(
+				this.isSecret(fieldPath) && raw
+					? new ConfigError((error as Error).message.split(raw).join(REDACTED))
+					: (error as Error),
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Throws under the `strict` policy and warns otherwise
+	 */
+	private handleEnvError(error: Error): void {
+		if (this.validation === "strict") {
+			throw error;
+		}
+		this.logger.warn(error.message);
+	}
+
+	/**
+	 * Maps environment variable names to the dotted config paths they set.
+	 * Names are derived from `prefix` for fields without an explicit name,
+	 * or not at all when it is undefined. Objects can be set as a whole with
+	 * JSON as well as field by field.
+	 */
+	private getEnvMapping(
+		shape: Record<string, z.ZodTypeAny>,
+		prefix: string | undefined,
+		parentPath: string[] = [],
+		mapping = new Map<string, string[]>(),
+	): Map<string, string[]> {
+		for (const [key, schema] of Object.entries(shape)) {
+			const fieldPath = [...parentPath, key];
+			const variable =
+				getFieldMeta(schema).env ??
+				(prefix === undefined
+					? undefined
+					: `${prefix}${fieldPath.map(toConstantCase).join("_")}`);
+
+			if (variable) {
+				mapping.set(variable, [
+					...(mapping.get(variable) || []),
+					fieldPath.join("."),
+				]);
+			}
+
+			const nestedShape = getNestedShape(schema);
+			if (nestedShape) {
+				this.getEnvMapping(nestedShape, prefix, fieldPath, mapping);
+			}
+		}
+
+		return mapping;
+	}
+
+	/**
+	 * Variable that set a dotted key, or one of its parent objects
+	 */
+	private getEnvVariable(key: string): string | undefined {
+		const segments = key.split(".");
+		for (let length = segments.length; length > 0; length--) {
+			const variable = this.envVariables.get(
+				segments.slice(0, length).join("."),
+			);
+			if (variable) {
+				return variable;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Loads every config layer, from lowest to highest precedence. An explicit
+	 * `configPath` replaces all file layers.
+	 */
+	private async loadLayers(
+		commandLineArgs: Record<string, unknown>,
+		options: LoadConfigOptions,
+	): Promise<{ layer: ConfigLayer; file?: string; data: ConfigObject }[]> {
+		const files: { layer: ConfigLayer; file: string }[] = [];
+
+		if (options.configPath) {
+			if (!fs.existsSync(options.configPath)) {
+				throw new ConfigError(`Config file not found: ${options.configPath}`);
+			}
+			files.push({ layer: "project", file: options.configPath });
+		} else {
+			const systemFile = this.discover
+				? this.findGlobalConfigFile([getSystemConfigDir(this.name)])
+				: undefined;
+			const userFile = this.discover
+				? this.findGlobalConfigFile([
+						getUserConfigDir(this.name),
+						path.join(os.homedir(), `.${this.name}`),
+					])
+				: undefined;
+			const projectFile =
+				this.configFiles.find((file) => fs.existsSync(file)) ??
+				(this.discover ? this.findProjectConfigFile() : undefined);
+			const localFile = this.discover
+				? this.findLocalConfigFile(
+						projectFile
+							? path.dirname(path.resolve(projectFile))
+							: process.cwd(),
+					)
+				: undefined;
+
+			for (const [layer, file] of [
+				["system", systemFile],
+				["user", userFile],
+				["project", projectFile],
+				["local", localFile],
+			] as const) {
+				if (file) {
+					files.push({ layer, file });
+				}
+			}
+		}
+
+		const layers: { layer: ConfigLayer; file?: string; data: ConfigObject }[] =
+			[{ layer: "defaults", data: this.defaults as ConfigObject }];
+		this.loadedFiles = [];
+
+		for (const { layer, file } of files) {
+			try {
+				layers.push({
+					layer,
+					file: path.resolve(file),
+					data: await this.loadFile(file),
+				});
+				this.loadedFiles.push({ layer, file: path.resolve(file) });
+			} catch (error) {
+				if (options.configPath || this.validation === "strict") {
+					throw error;
+				}
+				this.logger.warn(
+					`Error loading config from ${file}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}
+
+		layers.push({ layer: "env", data: this.loadFromEnv() as ConfigObject });
+		layers.push({ layer: "cli", data: commandLineArgs });
+
+		return layers;
+	}
+
+	private async loadFile(configFile: string): Promise<ConfigObject> {
+		// Extensionless rc files hold JSON or YAML
+		const loader: ConfigLoader | undefined =
+			this.loaderRegistry.getLoaderForFile(configFile) ??
+			(path.extname(configFile) === "" ? new YamlConfigLoader() : undefined);
+
+		if (!loader) {
+			throw new ConfigError(`No loader found for config file: ${configFile}`);
+		}
+
+		const loaded = await loader.load(configFile);
+		const config = ((path.basename(configFile) === "package.json"
+			? loaded[this.name]
+			: loaded) ?? {}) as ConfigObject;
+
+		this.logger.debug(`Loaded config from ${path.resolve(configFile)}`);
+		return this.toTypedValues(config, loader.values);
+	}
+
+	/**
+	 * Converts the values of loaders without typed values: strings are
+	 * coerced to the schema's field types and env files are mapped to config
+	 * keys like the `env` layer
+	 */
+	private toTypedValues(
+		config: ConfigObject,
+		values: ConfigLoader["values"] = "typed",
+	): ConfigObject {
+		const shape = getObjectShape(this.schema);
+		if (!shape || values === "typed") {
+			return config;
+		}
+
+		if (values === "env") {
+			return this.readEnv(
+				config as Record<string, string>,
+				shape,
+				this.getEnvMapping(shape, this.envPrefix),
+				new Map(),
+			);
+		}
+
+		return coerceArgs(shape, config);
+	}
+
+	/**
+	 * Searches the working directory and its parents up to the repository
+	 * root, in the style of cosmiconfig
+	 */
+	private findProjectConfigFile(): string | undefined {
+		const searchPlaces = [
+			"package.json",
+			`.${this.name}rc`,
+			...CONFIG_EXTENSIONS.map((ext) => `.${this.name}rc${ext}`),
+			...CONFIG_EXTENSIONS.map((ext) => `${this.name}.config${ext}`),
+		];
+
+		let directory = process.cwd();
+		while (true) {
+			for (const place of searchPlaces) {
+				const candidate = path.join(directory, place);
+				if (this.isConfigCandidate(candidate)) {
+					return candidate;
+				}
+			}
+
+			const parent = path.dirname(directory);
+			if (parent === directory || fs.existsSync(path.join(directory, ".git"))) {
+				return undefined;
+			}
+			directory = parent;
+		}
+	}
+
+	/**
+	 * Uncommitted overrides next to the project config, e.g. `.<name>rc.local.json`
+	 */
+	private findLocalConfigFile(directory: string): string | undefined {
+		return [
+			`.${this.name}rc.local`,
+			...CONFIG_EXTENSIONS.map((ext) => `.${this.name}rc.local${ext}`),
+			...CONFIG_EXTENSIONS.map((ext) => `${this.name}.config.local${ext}`),
+		]
+			.map((place) => path.join(directory, place))
+			.find((file) => this.isConfigCandidate(file));
+	}
+
+	/**
+	 * A global location is either the config file itself or a directory
+	 * holding `config` / `config.<ext>`
+	 */
+	private findGlobalConfigFile(locations: string[]): string | undefined {
+		for (const location of locations) {
+			if (!fs.existsSync(location)) {
+				continue;
+			}
+			if (fs.statSync(location).isFile()) {
+				return location;
+			}
+			const candidate = [
+				"config",
+				...CONFIG_EXTENSIONS.map((ext) => `config${ext}`),
+			]
+				.map((place) => path.join(location, place))
+				.find((file) => this.isConfigCandidate(file));
+			if (candidate) {
+				return candidate;
+			}
+		}
+
+		return undefined;
+	}
+
+	private isConfigCandidate(filePath: string): boolean {
+		if (!(fs.existsSync(filePath) && fs.statSync(filePath).isFile())) {
+			return false;
+		}
+		if (path.basename(filePath) !== "package.json") {
+			return true;
+		}
+
+		try {
+			const packageJson = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+			return packageJson?.[this.name] !== undefined;
+		} catch {
+			return false;
+		}
+	}
+
+	private mergeConfig<K extends Partial<T>>(target: K, source: K): K {
+		const result = { ...target } as K;
+
+		for (const key in source) {
+			if (Object.prototype.hasOwnProperty.call(source, key)) {
+				const value = source[key];
+
+				if (isPlainObject(value)) {
+					// @ts-ignore - Complex merging of generic objects
+					result[key] = this.mergeConfig((result[key] || {}) as K, value as K);
+				} else {
+					// @ts-ignore - Assignment to generic object
+					result[key] = value;
+				}
+			}
+		}
+
+		return result;
+	}
+}
+
+// Middleware types and implementation
+export interface MiddlewareArgs<
+	T,
+	Context,
+	Metadata = Record<string, unknown>,
+> {
+	parsedInput: T;
+	ctx: Context;
+	metadata?: Metadata;
+	next: (options?: { ctx?: Partial<Context> }) => Promise<
+		MiddlewareResult<unknown, Context>
+	>;
+}
+
+export interface MiddlewareResult<R, Context> {
+	result: R;
+	ctx: Context;
+}
+
+export type MiddlewareFunction<
+	T,
+	R,
+	Context,
+	Metadata = Record<string, unknown>,
+> = (
+	args: MiddlewareArgs<T, Context, Metadata>,
+) => Promise<MiddlewareResult<R, Context>>;
+
+export interface Middleware<Context, Metadata = Record<string, unknown>> {
+	execute: <T, R>(args: {
+		parsedInput: T;
+		ctx: Context;
+		metadata?: Metadata;
+		handler: (args: { parsedInput: T; ctx: Context }) => Promise<R> | R;
+	}) => Promise<R>;
+}
+
+export class MiddlewareBuilder<
+	Context extends Record<string, unknown> = Record<string, unknown>,
+	Metadata = Record<string, unknown>,
+> {
+	define<T, R>(
+		fn: MiddlewareFunction<T, R, Context, Metadata>,
+	): Middleware<Context, Metadata> {
+		return {
+			execute: async <InputT, ResultT>({
+				parsedInput,
+				ctx,
+				metadata,
+				handler,
+			}: {
+				parsedInput: InputT;
+				ctx: Context;
+				metadata?: Metadata;
+				handler: (args: { parsedInput: InputT; ctx: Context }) =>
+					| Promise<ResultT>
+					| ResultT;
+			}): Promise<ResultT> => {
+				const result = await fn({
+					parsedInput: parsedInput as unknown as T,
+					ctx,
+					metadata,
+					next: async (options?: { ctx?: Partial<Context> }) => {
+						const newCtx = options?.ctx ? { ...ctx, ...options.ctx } : ctx;
+
+						const handlerResult = await handler({
+							parsedInput,
+							ctx: newCtx,
+						});
+
+						return {
+							result: handlerResult as unknown as R,
+							ctx: newCtx,
+						};
+					},
+				});
+
+				return result.result as unknown as ResultT;
+			},
+		};
+	}
+}
+
+export function createMiddleware<
+	Context extends Record<string, unknown> = Record<string, unknown>,
+	Metadata = Record<string, unknown>,
+>(): MiddlewareBuilder<Context, Metadata> {
+	return new MiddlewareBuilder<Context, Metadata>();
+}
+
+export class ActionBuilder<T = unknown, R = unknown, C = unknown> {
+	private name = "";
+	private description = "";
+	private inputZodSchema: z.ZodType<T> | null = null;
+	private outputZodSchema: z.ZodType<R> | null = null;
+	private commandMetadata: Record<string, unknown> = {};
+	private commandAliases: string[] = [];
+	private commandFlags: Record<string, string> = {};
+	private commandPositional: string[] = [];
+	private commandConfigDefaults: Record<string, string> = {};
+	private commandCompletions: Record<string, CompletionCallback> = {};
+	private commandExamples: T[] = [];
+	private commandSubcommands: CommandDefinition<unknown, unknown>[] = [];
+	private parentCommand: string | undefined = undefined;
+	private cliBuilder: CliBuilder | null = null;
+	private middlewareFunctions: Middleware<unknown, unknown>[] = [];
+
+	constructor(name?: string, description?: string, parent?: string) {
+		if (name) {
+			this.name = name;
+		}
+		if (description) {
+			this.description = description;
+		}
+		this.parentCommand = parent;
+	}
+
+	setCliBuilder(cliBuilder: CliBuilder): void {
+		this.cliBuilder = cliBuilder;
+	}
+
+	input(schema: z.ZodType<T>): ActionBuilder<T, R, C> {
+		const newBuilder = new ActionBuilder<T, R, C>();
+		newBuilder.name = this.name;
+		newBuilder.description = this.description;
+		newBuilder.inputZodSchema = schema;
+		newBuilder.outputZodSchema = this.outputZodSchema;
+		newBuilder.commandMetadata = this.commandMetadata;
+		newBuilder.commandAliases = this.commandAliases;
+		newBuilder.commandFlags = this.commandFlags;
+		newBuilder.commandPositional = this.commandPositional;
+		newBuilder.commandConfigDefaults = this.commandConfigDefaults;
+		newBuilder.commandCompletions = this.commandCompletions;
+		newBuilder.commandExamples = this.commandExamples;
+		newBuilder.commandSubcommands = this.commandSubcommands;
+		newBuilder.parentCommand = this.parentCommand;
+		newBuilder.cliBuilder = this.cliBuilder;
+		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
+		return newBuilder;
+	}
+
+	output(schema: z.ZodType<R>): ActionBuilder<T, R, C> {
+		const newBuilder = new ActionBuilder<T, R, C>();
+		newBuilder.name = this.name;
+		newBuilder.description = this.description;
+		newBuilder.inputZodSchema = this.inputZodSchema;
+		newBuilder.outputZodSchema = schema;
+		newBuilder.commandMetadata = this.commandMetadata;
+		newBuilder.commandAliases = this.commandAliases;
+		newBuilder.commandFlags = this.commandFlags;
+		newBuilder.commandPositional = this.commandPositional;
+		newBuilder.commandConfigDefaults = this.commandConfigDefaults;
+		newBuilder.commandCompletions = this.commandCompletions;
+		newBuilder.commandExamples = this.commandExamples;
+		newBuilder.commandSubcommands = this.commandSubcommands;
+		newBuilder.parentCommand = this.parentCommand;
+		newBuilder.cliBuilder = this.cliBuilder;
+		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
+		return newBuilder;
+	}
+
+	meta(metadata: Record<string, unknown>): ActionBuilder<T, R, C> {
+		this.commandMetadata = { ...this.commandMetadata, ...metadata };
+		return this;
+	}
+
+	examples(examples: T[]): ActionBuilder<T, R, C> {
+		this.commandExamples = examples;
+		return this;
+	}
+
+	aliases(aliases: string[]): ActionBuilder<T, R, C> {
+		this.commandAliases = aliases;
+		return this;
+	}
+
+	/**
+	 * Declare single-character short flags for input fields,
+	 * e.g. `.flags({ verbose: "v", limit: "n" })` enables `-v` and `-n 5`.
+	 */
+	flags(flags: Record<string, string>): ActionBuilder<T, R, C> {
+		const normalized: Record<string, string> = {};
+		const usedBy: Record<string, string> = {};
+
+		for (const [field, flag] of Object.entries(flags)) {
+			const short = flag.replace(/^-/, "");
+			if (!/^[a-zA-Z]$/.test(short)) {
+				throw new Error(
+					`Invalid short flag "${flag}" for option "${field}": expected a single letter`,
+				);
+			}
+			if (usedBy[short]) {
+				throw new Error(
+					`Short flag "-${short}" is already used by option "${usedBy[short]}"`,
+				);
+			}
+			usedBy[short] = field;
+			normalized[field] = short;
+		}
+
+		this.commandFlags = normalized;
+		return this;
+	}
+
+	/**
+	 * Declare input fields that are filled from positional arguments, in order.
+	 * A trailing `name...` entry collects all remaining arguments into an array,
+	 * e.g. `.positional(["query", "files..."])`.
+	 */
+	positional(names: string[]): ActionBuilder<T, R, C> {
+		names.forEach((name, index) => {
+			const field = name.endsWith("...") ? name.slice(0, -3) : name;
+
+			if (!field) {
+				throw new Error("Positional argument name is required");
+			}
+			if (name.endsWith("...") && index !== names.length - 1) {
+				throw new Error(
+					`Variadic positional argument "${name}" must be the last one`,
+				);
+			}
+			if (
+				names.some(
+					(other, j) => j < index && other.replace(/\.\.\.$/, "") === field,
+				)
+			) {
+				throw new Error(`Duplicate positional argument "${field}"`);
+			}
+		});
+
+		this.commandPositional = [...names];
+		return this;
+	}
+
+	/**
+	 * Default input fields to config values when they are not passed, e.g.
+	 * `.configDefaults({ limit: "search.maxResults" })`. Precedence is
+	 * flag > config > schema default.
+	 */
+	configDefaults(
+		defaults: Record<string, ConfigKey<C>>,
+	): ActionBuilder<T, R, C> {
+		this.commandConfigDefaults = {
+			...this.commandConfigDefaults,
+			...(defaults as Record<string, string>),
+		};
+		return this;
+	}
+
+	/**
+	 * Declare dynamic shell completion for input fields. Each callback receives
+	 * the word being completed and the words typed so far.
+	 */
+	complete(
+		completions: Record<string, CompletionCallback>,
+	): ActionBuilder<T, R, C> {
+		this.commandCompletions = { ...this.commandCompletions, ...completions };
+		return this;
+	}
+
+	use<
+		MiddlewareContext extends Record<string, unknown>,
+		MiddlewareMetadata extends Record<string, unknown>,
+	>(
+		middlewareFn:
+			| MiddlewareFunction<T, R, MiddlewareContext, MiddlewareMetadata>
+			| Middleware<MiddlewareContext, MiddlewareMetadata>,
+	): ActionBuilder<T, R, C> {
+		const newBuilder = new ActionBuilder<T, R, C>();
+		newBuilder.name = this.name;
+		newBuilder.description = this.description;
+		newBuilder.inputZodSchema = this.inputZodSchema;
+		newBuilder.outputZodSchema = this.outputZodSchema;
+		newBuilder.commandMetadata = this.commandMetadata;
+		newBuilder.commandAliases = this.commandAliases;
+		newBuilder.commandFlags = this.commandFlags;
+		newBuilder.commandPositional = this.commandPositional;
+		newBuilder.commandConfigDefaults = this.commandConfigDefaults;
+		newBuilder.commandCompletions = this.commandCompletions;
+		newBuilder.commandExamples = this.commandExamples;
+		newBuilder.commandSubcommands = this.commandSubcommands;
+		newBuilder.parentCommand = this.parentCommand;
+		newBuilder.cliBuilder = this.cliBuilder;
+
+		// Copy existing middleware
+		newBuilder.middlewareFunctions = [...this.middlewareFunctions];
+
+		// Add new middleware
+		if (typeof middlewareFn === "function") {
+			// If it's a function, convert it to a middleware
+			const middleware = createMiddleware<
+				MiddlewareContext,
+				MiddlewareMetadata
+			>().define(middlewareFn);
+			newBuilder.middlewareFunctions.push(
+				middleware as unknown as Middleware<unknown, unknown>,
+			);
+		} else {
+			// If it's already a middleware object
+			newBuilder.middlewareFunctions.push(
+				middlewareFn as unknown as Middleware<unknown, unknown>,
+			);
+		}
+
+		return newBuilder;
+	}
+
+	action<NewR>(
+		handler: CommandHandler<T, NewR, C>,
+	): CommandDefinition<T, NewR> {
+		if (!this.name) {
+			throw new Error("Command name is required");
+		}
+
+		if (!this.inputZodSchema) {
+			throw new Error("Command input schema is required");
+		}
+
+		// Create a wrapped handler that applies middleware
+		const wrappedHandler: CommandHandler<T, NewR, C> = async (args) => {
+			if (this.middlewareFunctions.length === 0) {
+				// No middleware, just call the handler directly
+				return handler(args);
+			}
+
+			let result: NewR;
+			let currentCtx = { ...args.context };
+
+			// Apply middleware in sequence
+			const applyMiddleware = async (index: number): Promise<NewR> => {
+				if (index >= this.middlewareFunctions.length) {
+					// All middleware applied, call the handler
+					return handler({
+						...args,
+						context: currentCtx,
+					});
+				}
+
+				const middleware = this.middlewareFunctions[index];
+				return middleware.execute({
+					parsedInput: args.parsedInput,
+					ctx: currentCtx,
+					metadata: this.commandMetadata,
+					handler: async ({ parsedInput, ctx }) => {
+						// Update the context for the next middleware or final handler
+						currentCtx = ctx as CommandContext<C>;
+						return applyMiddleware(index + 1);
+					},
+				}) as Promise<NewR>;
+			};
+
+			return applyMiddleware(0);
+		};
+
+		const command: CommandDefinition<T, NewR> = {
+			name: this.name,
+			description: this.description,
+			inputSchema: this.inputZodSchema,
+			outputSchema: this.outputZodSchema as unknown as
+				| z.ZodType<NewR>
+				| undefined,
+			metadata:
+				Object.keys(this.commandMetadata).length > 0
+					? this.commandMetadata
+					: undefined,
+			// Registered commands receive the config loaded for the schema given to
+			// `configure()`, which is what `C` describes
+			handler: wrappedHandler as CommandHandler<T, NewR>,
+			aliases: this.commandAliases,
+			flags:
+				Object.keys(this.commandFlags).length > 0
+					? this.commandFlags
+					: undefined,
+			positional:
+				this.commandPositional.length > 0 ? this.commandPositional : undefined,
+			configDefaults:
+				Object.keys(this.commandConfigDefaults).length > 0
+					? this.commandConfigDefaults
+					: undefined,
+			completions:
+				Object.keys(this.commandCompletions).length > 0
+					? this.commandCompletions
+					: undefined,
+			examples: this.commandExamples,
+			subcommands: this.commandSubcommands,
+			parent: this.parentCommand,
+			middleware:
+				this.middlewareFunctions.length > 0
+					? this.middlewareFunctions
+					: undefined,
+		};
+
+		if (this.cliBuilder) {
+			this.cliBuilder.registerCommand(
+				command as unknown as CommandDefinition<unknown, unknown>,
+			);
+		}
+
+		return command;
+	}
+
+	sub(
+		nameOrConfig: string | CommandConfig,
+	): ActionBuilder<unknown, unknown, C> {
+		if (typeof nameOrConfig === "string") {
+			const subBuilder = new ActionBuilder<unknown, unknown, C>(
+				nameOrConfig,
+				"",
+				this.name,
+			);
+			subBuilder.cliBuilder = this.cliBuilder;
+
+			// Internal representation uses colon delimiter
+			const fullName = this.name
+				? `${this.name}:${nameOrConfig}`
+				: nameOrConfig;
+			subBuilder.name = fullName;
+
+			subBuilder.commandMetadata = { group: "default" };
+
+			// Inherit middleware from parent
+			subBuilder.middlewareFunctions = [...this.middlewareFunctions];
+
+			return subBuilder;
+		}
+		const {
+			command,
+			description: cmdDesc,
+			group = "default",
+			...restMetadata
+		} = nameOrConfig;
+
+		const subBuilder = new ActionBuilder<unknown, unknown, C>(
+			command,
+			cmdDesc || "",
+			this.name,
+		);
 		subBuilder.cliBuilder = this.cliBuilder;
 
-		// Internal representation uses colon delimiter
-		const fullName = this.name ? `${this.name}:${command}` : command;
-		subBuilder.name = fullName;
+		// Internal representation uses colon delimiter
+		const fullName = this.name ? `${this.name}:${command}` : command;
+		subBuilder.name = fullName;
+
+		subBuilder.commandMetadata = {
+			group,
+			...restMetadata,
+		};
+
+		// Inherit middleware from parent
+		subBuilder.middlewareFunctions = [...this.middlewareFunctions];
+
+		return subBuilder;
+	}
+}
+
+// Suggestions for mistyped commands and options
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + substitution,
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
+
+/**
+ * Returns the candidates closest to `input`, best match first. A candidate
+ * qualifies when it starts with the input or is within a few edits of it.
+ */
+function findSuggestions(
+	input: string,
+	candidates: string[],
+	limit = 3,
+): string[] {
+	const maxDistance = Math.max(2, Math.floor(input.length / 3));
+
+	return Array.from(new Set(candidates))
+		.map((candidate) => ({
+			candidate,
+			distance: candidate.startsWith(input)
+				? 0
+				: editDistance(input, candidate),
+		}))
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, limit)
+		.map(({ candidate }) => candidate);
+}
+
+// Shell completion
+
+const COMPLETE_COMMAND = "__complete";
+const COMPLETE_FILES = ":files";
+const MANIFEST_COMMAND = "__manifest";
+
+/**
+ * Renders a completion script for `shell`. The script asks the CLI for
+ * candidates by running the hidden `__complete` command, so completions stay
+ * in sync with the registered commands. A single `:files` candidate tells the
+ * shell to complete file names instead.
+ */
+function renderCompletionScript(
+	shell: CompletionShell,
+	programs: string[],
+): string {
+	const name = programs[0];
+	const fn = name.replace(/[^a-zA-Z0-9_]/g, "_");
+
+	if (shell === "bash") {
+		return `###-begin-${name}-completion-###
+_${fn}_completion() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local IFS=$'\\n'
+  local candidates
+  candidates=$("\${COMP_WORDS[0]}" ${COMPLETE_COMMAND} -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null)
+  if [[ "$candidates" == "${COMPLETE_FILES}" ]]; then
+    COMPREPLY=($(compgen -f -- "$cur"))
+  else
+    COMPREPLY=($(compgen -W "$candidates" -- "$cur"))
+  fi
+}
+complete -o filenames -F _${fn}_completion ${programs.join(" ")}
+###-end-${name}-completion-###`;
+	}
+
+	if (shell === "zsh") {
+		return `#compdef ${programs.join(" ")}
+_${fn}() {
+  local -a candidates
+  candidates=(\${(f)"$(\${words[1]} ${COMPLETE_COMMAND} -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"})
+  if [[ "\${candidates[1]}" == "${COMPLETE_FILES}" ]]; then
+    _files
+  elif (( \${#candidates} )); then
+    compadd -- "\${candidates[@]}"
+  fi
+}
+compdef _${fn} ${programs.join(" ")}`;
+	}
+
+	if (shell === "fish") {
+		return `function __${fn}_complete
+    set -l tokens (commandline -opc)
+    set -l current (commandline -ct)
+    set -l program $tokens[1]
+    set -e tokens[1]
+    set -l candidates ($program ${COMPLETE_COMMAND} -- $tokens "$current" 2>/dev/null)
+    if test "$candidates" = "${COMPLETE_FILES}"
+        __fish_complete_path "$current"
+    else
+        printf '%s\\n' $candidates
+    end
+end
+${programs.map((program) => `complete -c ${program} -f -a '(__${fn}_complete)'`).join("\n")}`;
+	}
+
+	return `Register-ArgumentCompleter -Native -CommandName @(${programs.map((program) => `'${program}'`).join(", ")}) -ScriptBlock {
+    param($wordToComplete, $commandAst, $cursorPosition)
+    $program = $commandAst.CommandElements[0].ToString()
+    $words = @($commandAst.CommandElements | Select-Object -Skip 1 | ForEach-Object { $_.ToString() })
+    if ($wordToComplete -eq '') { $words += '""' }
+    $candidates = @(& $program ${COMPLETE_COMMAND} -- @words 2>$null)
+    if ($candidates.Count -eq 1 -and $candidates[0] -eq '${COMPLETE_FILES}') {
+        # Returning nothing falls back to PowerShell's path completion
+        return
+    }
+    $candidates | Where-Object { $_ -like "$wordToComplete*" } | ForEach-Object {
+        [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)
+    }
+}`;
+}
+
+export class CliBuilder<C = unknown> {
+	private commands: Map<string, CommandDefinition<unknown, unknown>> =
+		new Map();
+	private logger: Logger;
+	private configManager: ConfigManager<unknown> | null = null;
+	private metadata: CliMetadata = {
+		name: "cli",
+		version: "1.0.0",
+	};
+	private globalMiddleware: Middleware<
+		Record<string, unknown>,
+		Record<string, unknown>
+	>[] = [];
+	private outputFormatters = new OutputFormatterRegistry();
+
+	constructor(logger: Logger) {
+		this.logger = logger;
+
+		this.registerCommand({
+			name: "help",
+			description: "Display help information",
+			metadata: { serve: false },
+			inputSchema: z.object({
+				command: z.string().optional(),
+			}),
+			handler: async ({ parsedInput, context }) => {
+				return { message: "Help information" };
+			},
+		});
+
+		this.registerCommand({
+			name: "version",
+			description: "Display version information",
+			metadata: { serve: false },
+			inputSchema: z.object({}),
+			handler: async () => {
+				return { version: this.metadata.version };
+			},
+		});
+		this.registerCommand({
+			name: "completion",
+			description: "Print a shell completion script",
+			inputSchema: z.object({
+				shell: z
+					.enum(["bash", "zsh", "fish", "powershell"])
+					.describe("Shell to generate the completion script for"),
+			}),
+			positional: ["shell"],
+			metadata: { serve: false },
+			handler: ({ parsedInput }) => {
+				const { shell } = parsedInput as { shell: CompletionShell };
+				return this.getCompletionScript(shell);
+			},
+		});
+
+		this.registerCommand({
+			name: "docs",
+			description: "Generate Markdown and man page documentation",
+			inputSchema: z.object({
+				outDir: z
+					.string()
+					.default("docs")
+					.describe("Directory to write the documentation to"),
+				man: z
+					.boolean()
+					.default(false)
+					.describe("Also generate roff man pages"),
+			}),
+			positional: ["outDir"],
+			metadata: { interactive: false, outputFormat: "text", serve: false },
+			handler: ({ parsedInput }) => {
+				const { outDir, man } = parsedInput as { outDir: string; man: boolean };
+				return this.writeDocs(outDir, man ? ["markdown", "man"] : ["markdown"]);
+			},
+		});
+
+		this.registerCommand({
+			name: "serve",
+			description: "Serve commands as MCP tools or HTTP endpoints",
+			inputSchema: z.object({
+				stdio: z
+					.boolean()
+					.default(false)
+					.describe("Speak MCP (JSON-RPC 2.0) over stdin and stdout"),
+				http: z
+					.boolean()
+					.default(false)
+					.describe("Serve commands as POST endpoints over HTTP"),
+				port: z
+					.number()
+					.int()
+					.default(3000)
+					.describe("Port for the HTTP server"),
+				host: z
+					.string()
+					.default("127.0.0.1")
+					.describe("Address for the HTTP server to bind to"),
+			}),
+			metadata: { interactive: false, serve: false },
+			handler: async ({ parsedInput, config, context }) => {
+				const {
+					stdio,
+					http: useHttp,
+					port,
+					host,
+				} = parsedInput as {
+					stdio: boolean;
+					http: boolean;
+					port: number;
+					host: string;
+				};
+				if (stdio === useHttp) {
+					throw new CommandError(
+						"Choose one transport: serve --stdio or serve --http",
+						{ exitCode: EXIT_CODES.usage, code: "USAGE_ERROR" },
+					);
+				}
+				if (stdio) {
+					await new McpServer(this as CliBuilder, { config, context }).listen();
+					return;
+				}
+				await this.listen(port, host, { config });
+			},
+		});
+
+		this.registerCommand({
+			name: MANIFEST_COMMAND,
+			description: "Print the CLI manifest as JSON",
+			inputSchema: z.object({}),
+			metadata: { hidden: true, interactive: false, outputFormat: "json" },
+			handler: () => this.toManifest(),
+		});
+
+		this.registerCommand({
+			name: COMPLETE_COMMAND,
+			description: "Print completion candidates for the given words",
+			inputSchema: z.object({
+				words: z.array(z.string()).default([]),
+			}),
+			positional: ["words..."],
+			metadata: { hidden: true, interactive: false, outputFormat: "text" },
+			handler: ({ parsedInput }) => {
+				const { words } = parsedInput as { words: string[] };
+				return this.getCompletions(words);
+			},
+		});
+	}
+
+	/**
+	 * Set the CLI tool metadata
+	 */
+	setMetadata(metadata: Partial<CliMetadata>): CliBuilder<C> {
+		this.metadata = { ...this.metadata, ...metadata };
+		return this;
+	}
+
+	/**
+	 * Get the CLI tool metadata
+	 */
+	getMetadata(): CliMetadata {
+		return this.metadata;
+	}
+
+	/**
+	 * Register an output formatter, selectable with `--output <name>`
+	 */
+	registerFormatter(formatter: OutputFormatter): CliBuilder<C> {
+		this.outputFormatters.registerFormatter(formatter);
+		return this;
+	}
+
+	getOutputFormatters(): OutputFormatterRegistry {
+		return this.outputFormatters;
+	}
+
+	/**
+	 * Describe the CLI and every registered command as a versioned JSON
+	 * document, with input and output schemas converted to JSON Schema
+	 */
+	toManifest(): CliManifest {
+		const commands = Array.from(this.commands.values()).map((command) => {
+			const unsupported = {
+				input: [] as UnsupportedSchemaNode[],
+				output: [] as UnsupportedSchemaNode[],
+			};
+			const { group, ...metadata } = command.metadata || {};
+
+			return {
+				name: command.name,
+				description: command.description,
+				parent: command.parent,
+				group: group as string | undefined,
+				aliases: command.aliases || [],
+				flags: command.flags || {},
+				positional: command.positional || [],
+				configDefaults: command.configDefaults || {},
+				// Functions such as renderText only exist at runtime
+				metadata: toSerializable(
+					Object.fromEntries(
+						Object.entries(metadata).filter(
+							([, value]) => typeof value !== "function",
+						),
+					),
+				) as Record<string, unknown>,
+				input: zodToJsonSchema(command.inputSchema, unsupported.input),
+				output: command.outputSchema
+					? zodToJsonSchema(command.outputSchema, unsupported.output)
+					: undefined,
+				examples: toSerializable(command.examples || []) as unknown[],
+				unsupported,
+			};
+		});
+
+		return {
+			manifestVersion: MANIFEST_VERSION,
+			jsonSchemaDialect: "https://json-schema.org/draft/2020-12/schema",
+			metadata: toSerializable(this.metadata) as CliMetadata,
+			commands,
+		};
+	}
+
+	/**
+	 * Node `http` request handler that maps `a:b:c` commands to `POST /a/b/c`
+	 * and serves an OpenAPI document at `/openapi.json`
+	 */
+	toRequestHandler(
+		options: RequestHandlerOptions = {},
+	): (
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	) => Promise<void> {
+		const router = new HttpCommandRouter(this as CliBuilder, options);
+		return (request, response) =>
+			router.handle(request, response).catch((error: unknown) => {
+				this.logger.error(
+					`Error handling ${request.method} ${request.url}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				response.destroy();
+			});
+	}
+
+	/**
+	 * OpenAPI 3.1 document describing the HTTP endpoints of `toRequestHandler`
+	 */
+	toOpenApi(): Record<string, unknown> {
+		return new HttpCommandRouter(this as CliBuilder).getOpenApiDocument();
+	}
+
+	/**
+	 * Serve commands over HTTP until the server is closed or the process
+	 * receives SIGINT
+	 */
+	private listen(
+		port: number,
+		host: string,
+		options: RequestHandlerOptions,
+	): Promise<void> {
+		const server = http.createServer(this.toRequestHandler(options));
+		const close = () => server.close();
+
+		return new Promise((resolve, reject) => {
+			server.once("error", reject);
+			server.once("close", () => {
+				process.off("SIGINT", close);
+				resolve();
+			});
+			server.listen(port, host, () => {
+				process.once("SIGINT", close);
+				this.logger.info(`Listening on http://${host}:${port}`);
+			});
+		});
+	}
+
+	/**
+	 * Render documentation for every visible command without writing it
+	 */
+	generateDocs(formats?: DocsFormat[]): DocsFile[] {
+		return new DocsGenerator(this as CliBuilder).generate(formats);
+	}
+
+	/**
+	 * Write documentation for every visible command below `outDir` and
+	 * return the paths of the written files
+	 */
+	writeDocs(outDir: string, formats?: DocsFormat[]): string[] {
+		return new DocsGenerator(this as CliBuilder).write(outDir, formats);
+	}
+
+	/**
+	 * Load config validated by `options.schema`. The returned builder types
+	 * the `config` passed to command handlers from that schema.
+	 */
+	configure<T>(options: ConfigOptions<T>): CliBuilder<T> {
+		this.configManager = new ConfigManager<T>(
+			{ name: this.metadata.name, ...options },
+			this.logger,
+		);
+		this.registerConfigCommands();
+		return this as unknown as CliBuilder<T>;
+	}
+
+	/**
+	 * Built-in `config list|get|explain` commands showing resolved values and
+	 * the layer and file each one came from
+	 */
+	private registerConfigCommands(): void {
+		const metadata = {
+			interactive: false,
+			serve: false,
+			outputFormat: "table",
+		};
+		const listConfig = () => {
+			const configManager = this.configManager as ConfigManager<unknown>;
+			return Object.entries(flattenConfig(configManager.getConfig())).map(
+				([key, value]) => {
+					const source = configManager.getSource(key);
+					return {
+						key,
+						value: configManager.redact(value, key),
+						layer: source?.layer ?? "schema",
+						source: describeConfigSource(source),
+					};
+				},
+			);
+		};
+		const getKey = (key: string) => {
+			const keys = Object.keys(flattenConfig(this.configManager?.getConfig()));
+			if (!keys.some((path) => path === key || path.startsWith(`${key}.`))) {
+				throw new CommandError(
+					`Unknown config key: ${key}.${formatSuggestions(findSuggestions(key, keys))}`,
+					{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_CONFIG_KEY" },
+				);
+			}
+			return key;
+		};
+
+		this.registerBuiltinCommand({
+			name: "config",
+			description: "Show the resolved configuration and where it came from",
+			inputSchema: z.object({}),
+			metadata,
+			handler: listConfig,
+		});
+
+		this.registerBuiltinCommand({
+			name: "config:list",
+			description: "List every config value with its layer and file",
+			inputSchema: z.object({}),
+			parent: "config",
+			metadata,
+			handler: listConfig,
+		});
+
+		this.registerBuiltinCommand({
+			name: "config:get",
+			description: "Print the value of a config key",
+			inputSchema: z.object({
+				key: z.string().describe("Dotted config key, e.g. database.host"),
+			}),
+			positional: ["key"],
+			parent: "config",
+			metadata: { ...metadata, outputFormat: "text" },
+			handler: ({ parsedInput, config }) => {
+				const key = getKey((parsedInput as { key: string }).key);
+				return this.configManager?.redact(getConfigValue(config, key), key);
+			},
+		});
+
+		this.registerBuiltinCommand({
+			name: "config:explain",
+			description:
+				"Show every layer that set a config key, in precedence order",
+			inputSchema: z.object({
+				key: z.string().describe("Dotted config key, e.g. database.host"),
+			}),
+			positional: ["key"],
+			parent: "config",
+			metadata,
+			handler: ({ parsedInput, config }) => {
+				const key = getKey((parsedInput as { key: string }).key);
+				const sources = this.configManager?.explain(key) ?? [];
+				if (sources.length === 0) {
+					return [
+						{
+							key,
+							value: this.configManager?.redact(
+								getConfigValue(config, key),
+								key,
+							),
+							layer: "schema",
+							applied: true,
+						},
+					];
+				}
+				const applied = new Map(
+					sources.map((source, index) => [source.key, index]),
+				);
+				return sources.map((source, index) => ({
+					key: source.key,
+					value: this.configManager?.redact(source.value, source.key),
+					layer: source.layer,
+					source: describeConfigSource(source),
+					applied: applied.get(source.key) === index,
+				}));
+			},
+		});
+	}
+
+	use<
+		MiddlewareContext extends Record<string, unknown>,
+		MiddlewareMetadata extends Record<string, unknown>,
+	>(
+		middlewareFn:
+			| MiddlewareFunction<
+					unknown,
+					unknown,
+					MiddlewareContext,
+					MiddlewareMetadata
+			  >
+			| Middleware<MiddlewareContext, MiddlewareMetadata>,
+	): CliBuilder<C> {
+		if (typeof middlewareFn === "function") {
+			// If it's a function, convert it to a middleware
+			const middleware = createMiddleware<
+				MiddlewareContext,
+				MiddlewareMetadata
+			>().define(middlewareFn);
+			this.globalMiddleware.push(
+				middleware as unknown as Middleware<
+					Record<string, unknown>,
+					Record<string, unknown>
+				>,
+			);
+		} else {
+			// If it's already a middleware object
+			this.globalMiddleware.push(
+				middlewareFn as unknown as Middleware<
+					Record<string, unknown>,
+					Record<string, unknown>
+				>,
+			);
+		}
+
+		return this;
+	}
+
+	add(config: CommandConfig): ActionBuilder<unknown, unknown, C> {
+		const { command, description, group = "default", ...metadata } = config;
+		const builder = new ActionBuilder<unknown, unknown, C>(
+			command,
+			description || "",
+		);
+		builder.setCliBuilder(this as CliBuilder);
+		builder.meta({ group, ...metadata });
+
+		// Add global middleware to the action builder
+		let builderWithMiddleware = builder;
+		this.globalMiddleware.forEach((middleware) => {
+			builderWithMiddleware = builderWithMiddleware.use(
+				middleware as unknown as Middleware<
+					Record<string, unknown>,
+					Record<string, unknown>
+				>,
+			);
+		});
+
+		return builderWithMiddleware;
+	}
+
+	getCommands(): Map<string, CommandDefinition<unknown, unknown>> {
+		return this.commands;
+	}
+
+	getConfigManager(): ConfigManager<C> | null {
+		return this.configManager as ConfigManager<C> | null;
+	}
+
+	getLogger(): Logger {
+		return this.logger;
+	}
+
+	registerCommand(command: CommandDefinition<unknown, unknown>): void {
+		this.commands.set(command.name, command);
+	}
+
+	/**
+	 * Registers a built-in command unless a command of that name is already
+	 * registered, so that user commands take precedence
+	 */
+	registerBuiltinCommand(command: CommandDefinition<unknown, unknown>): void {
+		if (this.commands.has(command.name)) {
+			this.logger.debug(
+				`Keeping the existing ${command.name} command over the built-in one`,
+			);
+			return;
+		}
+		this.registerCommand(command);
+	}
+
+	/**
+	 * Run a command programmatically, without going through `process.argv` or
+	 * printing its result. Input is validated with the command's input schema
+	 * and the result with its output schema; failures are returned, not thrown.
+	 */
+	invoke<T, R>(
+		command: CommandDefinition<T, R>,
+		input: Partial<T>,
+		options?: InvokeOptions,
+	): Promise<CommandResult<R>>;
+	invoke(
+		commandPath: string,
+		input: unknown,
+		options?: InvokeOptions,
+	): Promise<CommandResult<unknown>>;
+	async invoke(
+		commandOrPath: string | CommandDefinition<unknown, unknown>,
+		input: unknown,
+		options: InvokeOptions = {},
+	): Promise<CommandResult<unknown>> {
+		try {
+			const command =
+				typeof commandOrPath === "string"
+					? this.findCommand(commandOrPath)
+					: commandOrPath;
+
+			if (!command) {
+				throw new UnknownCommandError(
+					String(commandOrPath),
+					this.suggestCommands(String(commandOrPath)),
+				);
+			}
+
+			const config =
+				options.config !== undefined
+					? options.config
+					: await this.configManager?.loadConfig();
+
+			const withDefaults = applyConfigDefaults(command, input, config);
+			await options.beforeValidation?.(withDefaults);
+
+			const parsedInput = command.inputSchema.safeParse(withDefaults);
+			if (!parsedInput.success) {
+				throw CommandValidationError.fromZodError(parsedInput.error);
+			}
+			await options.afterValidation?.(parsedInput.data);
+
+			const configManager = this.configManager;
+			const result = await command.handler({
+				parsedInput: parsedInput.data,
+				context: {
+					logger: this.logger,
+					watchConfig: configManager
+						? (listener: ConfigWatchListener<unknown>) =>
+								configManager.watch(listener)
+						: undefined,
+					...options.context,
+				} as CommandContext,
+				config: config ?? {},
+			});
+
+			if (!command.outputSchema || result === undefined) {
+				return { ok: true, data: result };
+			}
+
+			const output = command.outputSchema.safeParse(result);
+			if (!output.success) {
+				throw new CommandError(
+					`Invalid command output: ${output.error.errors
+						.map((err) => `${err.path.join(".")}: ${err.message}`)
+						.join(", ")}`,
+				);
+			}
+
+			return { ok: true, data: output.data };
+		} catch (error) {
+			return toCommandFailure(error);
+		}
+	}
+
+	/**
+	 * Registered command names and aliases closest to a mistyped command,
+	 * in `parent sub` form
+	 */
+	suggestCommands(commandPath: string): string[] {
+		const candidates: string[] = [];
+
+		for (const [name, command] of Array.from(this.commands.entries())) {
+			if (command.metadata?.hidden) {
+				continue;
+			}
+			candidates.push(name);
+			for (const alias of command.aliases || []) {
+				candidates.push(command.parent ? `${command.parent}:${alias}` : alias);
+			}
+		}
+
+		const input = commandPath.trim().replace(/\s+/g, ":");
+		return findSuggestions(input, candidates).map((name) =>
+			name.replace(/:/g, " "),
+		);
+	}
+
+	/**
+	 * Look up a command by name (`user:create` or `user create`) or alias
+	 */
+	private findCommand(
+		commandPath: string,
+	): CommandDefinition<unknown, unknown> | undefined {
+		const name = commandPath.trim().replace(/\s+/g, ":");
+		const command = this.commands.get(name);
+		if (command) {
+			return command;
+		}
+
+		return Array.from(this.commands.values()).find((candidate) =>
+			candidate.aliases?.some(
+				(alias) =>
+					(candidate.parent ? `${candidate.parent}:${alias}` : alias) === name,
+			),
+		);
+	}
+
+	/**
+	 * Shell completion script for this CLI and its aliases
+	 */
+	getCompletionScript(shell: CompletionShell): string {
+		return renderCompletionScript(shell, [
+			this.metadata.name,
+			...(this.metadata.aliases || []).filter(
+				(alias) => alias !== this.metadata.name,
+			),
+		]);
+	}
+
+	/**
+	 * Completion candidates for a partially typed command line. `words` are the
+	 * arguments after the program name; the last one is the word being completed.
+	 */
+	async getCompletions(words: string[]): Promise<string[]> {
+		// PowerShell cannot always pass an empty argument, so it sends ""
+		const current = words.length > 0 ? words[words.length - 1] : "";
+		const typed = current === '""' ? "" : current;
+		const previous = words.slice(0, -1);
+
+		const leading: string[] = [];
+		for (const word of previous) {
+			if (word.startsWith("-")) {
+				break;
+			}
+			leading.push(word);
+		}
+
+		// Walk the command path, allowing segments that only group subcommands
+		let commandPath = "";
+		let consumed = 0;
+		for (const word of leading) {
+			const candidate = commandPath ? `${commandPath}:${word}` : word;
+			const resolved =
+				this.findCommand(candidate)?.name ??
+				(this.getSubcommandNames(candidate).length > 0 ? candidate : undefined);
+
+			if (!resolved) {
+				break;
+			}
+			commandPath = resolved;
+			consumed++;
+		}
+
+		const candidates = await this.getCompletionCandidates(
+			commandPath,
+			typed,
+			previous,
+			leading.length - consumed,
+		);
+
+		if (candidates.length === 1 && candidates[0] === COMPLETE_FILES) {
+			return candidates;
+		}
+
+		return Array.from(new Set(candidates))
+			.filter((candidate) => candidate.startsWith(typed))
+			.sort();
+	}
+
+	private async getCompletionCandidates(
+		commandPath: string,
+		current: string,
+		previous: string[],
+		operandCount: number,
+	): Promise<string[]> {
+		const command = this.commands.get(commandPath);
+		const shape = getObjectShape(command?.inputSchema);
+		const lastWord = previous[previous.length - 1];
+
+		// Completing the value of the preceding flag
+		if (lastWord?.startsWith("-") && !lastWord.includes("=")) {
+			const field = this.resolveCompletionField(command, lastWord);
+
+			if (field === "output" && !shape?.output) {
+				return this.outputFormatters.getFormatterNames();
+			}
+
+			const schema = getSchemaAtPath(shape, field);
+			if (schema && !isBooleanSchema(schema)) {
+				return this.getValueCompletions(command, field, schema, {
+					current,
+					words: [...previous, current],
+				});
+			}
+		}
+
+		// Completing --flag=value
+		if (current.startsWith("--") && current.includes("=")) {
+			const field = current.slice(2, current.indexOf("="));
+			const schema = getSchemaAtPath(shape, field);
+			const values = schema
+				? await this.getValueCompletions(command, field, schema, {
+						current: current.slice(current.indexOf("=") + 1),
+						words: [...previous, current],
+					})
+				: [];
+			return values[0] === COMPLETE_FILES
+				? values
+				: values.map((value) => `--${field}=${value}`);
+		}
+
+		if (current.startsWith("-")) {
+			return this.getFlagCompletions(command);
+		}
+
+		const candidates =
+			operandCount === 0 ? this.getSubcommandNames(commandPath) : [];
+
+		const positional = command?.positional || [];
+		const variadic = positional[positional.length - 1]?.endsWith("...");
+		const slot =
+			positional[operandCount] ??
+			(variadic ? positional[positional.length - 1] : undefined);
+
+		if (slot) {
+			const field = slot.replace(/\.\.\.$/, "");
+			const schema = getSchemaAtPath(shape, field);
+			if (schema) {
+				const values = await this.getValueCompletions(command, field, schema, {
+					current,
+					words: [...previous, current],
+				});
+				if (values[0] === COMPLETE_FILES && candidates.length === 0) {
+					return values;
+				}
+				candidates.push(...values.filter((value) => value !== COMPLETE_FILES));
+			}
+		}
+
+		return candidates;
+	}
+
+	private resolveCompletionField(
+		command: CommandDefinition<unknown, unknown> | undefined,
+		flag: string,
+	): string {
+		if (flag.startsWith("--")) {
+			return flag.slice(2);
+		}
+
+		const short = flag.slice(-1);
+		const entry = Object.entries(command?.flags || {}).find(
+			([, letter]) => letter === short,
+		);
+		return entry ? entry[0] : short;
+	}
+
+	private async getValueCompletions(
+		command: CommandDefinition<unknown, unknown> | undefined,
+		field: string,
+		schema: z.ZodTypeAny,
+		args: { current: string; words: string[] },
+	): Promise<string[]> {
+		const callback = command?.completions?.[field];
+		if (callback) {
+			return (await callback(args)).map(String);
+		}
+
+		if (getFieldMeta(schema).path) {
+			return [COMPLETE_FILES];
+		}
+
+		const inner = unwrapSchema(schema);
+		const element =
+			inner instanceof z.ZodArray ? unwrapSchema(inner.element) : inner;
+
+		if (element instanceof z.ZodEnum) {
+			return element.options as string[];
+		}
+		if (element instanceof z.ZodNativeEnum) {
+			return Object.keys(element.enum).filter((key) =>
+				Number.isNaN(Number(key)),
+			);
+		}
+		if (element instanceof z.ZodBoolean) {
+			return ["true", "false"];
+		}
+
+		return [];
+	}
+
+	private getFlagCompletions(
+		command: CommandDefinition<unknown, unknown> | undefined,
+	): string[] {
+		const flags = ["--help", "--output", "--no-interactive"];
+
+		const shape = getObjectShape(command?.inputSchema);
+		for (const field of shape ? getFieldPaths(shape) : []) {
+			flags.push(`--${field}`);
+			if (isBooleanSchema(getSchemaAtPath(shape, field))) {
+				flags.push(`--no-${field}`);
+			}
+		}
+		for (const short of Object.values(command?.flags || {})) {
+			flags.push(`-${short}`);
+		}
+
+		return flags;
+	}
+
+	/**
+	 * Names (and aliases) of the commands one level below `parent`
+	 */
+	private getSubcommandNames(parent: string): string[] {
+		const prefix = parent ? `${parent}:` : "";
+		const names: string[] = [];
+
+		for (const [name, command] of Array.from(this.commands.entries())) {
+			if (command.metadata?.hidden || !name.startsWith(prefix)) {
+				continue;
+			}
+
+			const rest = name.slice(prefix.length);
+			if (!rest) {
+				continue;
+			}
+
+			// Deeper commands contribute their next path segment
+			names.push(rest.split(":")[0]);
+		}
+
+		// Aliases resolve under the command's parent, or at the top level
+		const aliases = Array.from(this.commands.values())
+			.filter(
+				(command) =>
+					!command.metadata?.hidden && (command.parent || "") === parent,
+			)
+			.flatMap((command) => command.aliases || []);
+
+		return [...names, ...aliases];
+	}
+
+	async run(options: CliOptions = {}): Promise<void> {
+		const devtool = new Devtool(this as CliBuilder, options);
+		return devtool.run();
+	}
+
+	/**
+	 * Parse and run `argv` like `run`, returning the result instead of printing it
+	 */
+	execute(
+		argv: string[],
+		options: CliOptions = {},
+	): Promise<CommandResult<unknown>> {
+		const devtool = new Devtool(this as CliBuilder, options);
+		return devtool.execute(argv);
+	}
+}
+
+// Schema-aware argument coercion
+
+const TRUE_VALUES = ["true", "1", "yes", "y", "on"];
+const FALSE_VALUES = ["false", "0", "no", "n", "off"];
+
+/**
+ * Returns the schema wrapped by an optional/nullable/default/effects/...
+ * wrapper, or undefined when the schema is not a wrapper.
+ */
+function unwrapSchemaOnce(schema: z.ZodTypeAny): z.ZodTypeAny | undefined {
+	const def = schema._def;
+	const typeName = def.typeName as string;
+
+	if (
+		typeName === "ZodOptional" ||
+		typeName === "ZodNullable" ||
+		typeName === "ZodDefault" ||
+		typeName === "ZodCatch" ||
+		typeName === "ZodReadonly"
+	) {
+		return def.innerType;
+	}
+	if (typeName === "ZodEffects") {
+		return def.schema;
+	}
+	if (typeName === "ZodBranded") {
+		return def.type;
+	}
+	if (typeName === "ZodPipeline") {
+		return def.in;
+	}
+	if (typeName === "ZodLazy") {
+		return def.getter();
+	}
+
+	return undefined;
+}
+
+/**
+ * Strips wrapper types (optional, nullable, default, effects, ...) so the
+ * schema that actually describes the value can be inspected.
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+	let current = schema;
+	let inner = current?._def ? unwrapSchemaOnce(current) : undefined;
+
+	while (inner) {
+		current = inner;
+		inner = current._def ? unwrapSchemaOnce(current) : undefined;
+	}
+
+	return current;
+}
+
+export interface FieldMeta {
+	/**
+	 * Mask the value when prompting for it. Secret config fields are redacted
+	 * from `config` output, logs and errors, and can be read from
+	 * `<VARIABLE>_FILE` or resolved from references such as `dotenv:NAME`.
+	 */
+	secret?: boolean;
+	/** The value is a file system path, completed with file names */
+	path?: boolean;
+	/**
+	 * Environment variable that sets this config field, used as is (without
+	 * `envPrefix`) instead of the name derived from the field path
+	 */
+	env?: string;
+}
+
+/**
+ * Attach zod-command metadata to an input or config field. Like `.describe()`,
+ * this returns a copy of the schema; wrappers such as `.optional()` may be
+ * applied before or after.
+ *
+ * @example
+ * z.object({ token: fieldMeta(z.string(), { secret: true }) })
+ */
+export function fieldMeta<S extends z.ZodTypeAny>(
+	schema: S,
+	meta: FieldMeta,
+): S {
+	const Schema = schema.constructor as new (def: unknown) => S;
+	const ownMeta = (schema._def as { fieldMeta?: FieldMeta }).fieldMeta;
+	return new Schema({ ...schema._def, fieldMeta: { ...ownMeta, ...meta } });
+}
+
+/**
+ * Collects field metadata from a schema and every schema it wraps. Metadata
+ * set on an outer wrapper takes precedence.
+ */
+function getFieldMeta(schema: z.ZodTypeAny | undefined): FieldMeta {
+	const layers: FieldMeta[] = [];
+	let current = schema;
+
+	while (current?._def) {
+		const meta = (current._def as { fieldMeta?: FieldMeta }).fieldMeta;
+		if (meta) {
+			layers.unshift(meta);
+		}
+		current = unwrapSchemaOnce(current);
+	}
+
+	return Object.assign({}, ...layers);
+}
+
+/**
+ * Returns the object shape of a schema, looking through wrapper types.
+ */
+function getObjectShape(
+	schema: z.ZodTypeAny | undefined,
+): Record<string, z.ZodTypeAny> | null {
+	if (!schema) {
+		return null;
+	}
+
+	const inner = unwrapSchema(schema);
+	if (inner instanceof z.ZodObject) {
+		return inner.shape as Record<string, z.ZodTypeAny>;
+	}
+
+	return null;
+}
+
+/**
+ * Whether a field is `z.lazy`, possibly wrapped in optional, default, ...
+ */
+function isLazySchema(schema: z.ZodTypeAny): boolean {
+	let current: z.ZodTypeAny | undefined = schema;
+	while (current?._def) {
+		if (current._def.typeName === "ZodLazy") {
+			return true;
+		}
+		current = unwrapSchemaOnce(current);
+	}
+	return false;
+}
+
+/**
+ * Object shape of a nested field, for walking a schema field by field.
+ * Recursive schemas can only be built with `z.lazy`, so lazy fields are
+ * treated as leaves instead of being followed.
+ */
+function getNestedShape(
+	schema: z.ZodTypeAny,
+): Record<string, z.ZodTypeAny> | null {
+	return isLazySchema(schema) ? null : getObjectShape(schema);
+}
+
+/**
+ * Resolves a flag name such as `db.host` to the schema of the nested field.
+ */
+function getSchemaAtPath(
+	shape: Record<string, z.ZodTypeAny> | null,
+	key: string,
+): z.ZodTypeAny | undefined {
+	if (!shape) {
+		return undefined;
+	}
+	if (shape[key]) {
+		return shape[key];
+	}
+
+	let current: z.ZodTypeAny | undefined;
+	let currentShape: Record<string, z.ZodTypeAny> | null = shape;
+
+	for (const segment of key.split(".")) {
+		current = currentShape?.[segment];
+		if (!current) {
+			return undefined;
+		}
+		currentShape = getObjectShape(current);
+	}
+
+	return current;
+}
+
+function isBooleanSchema(schema: z.ZodTypeAny | undefined): boolean {
+	return !!schema && unwrapSchema(schema) instanceof z.ZodBoolean;
+}
+
+function isArraySchema(schema: z.ZodTypeAny | undefined): boolean {
+	return !!schema && unwrapSchema(schema) instanceof z.ZodArray;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== "object") {
+		return false;
+	}
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Dotted paths of every leaf field in a shape, e.g. `["name", "db.host"]`
+ */
+function getFieldPaths(
+	shape: Record<string, z.ZodTypeAny>,
+	prefix = "",
+): string[] {
+	return Object.entries(shape).flatMap(([key, schema]) => {
+		const nestedShape = getNestedShape(schema);
+		return nestedShape && Object.keys(nestedShape).length > 0
+			? getFieldPaths(nestedShape, `${prefix}${key}.`)
+			: [`${prefix}${key}`];
+	});
+}
+
+/**
+ * Dotted paths of values that the shape does not declare
+ */
+function getUnknownPaths(
+	shape: Record<string, z.ZodTypeAny>,
+	values: Record<string, unknown>,
+	prefix = "",
+): string[] {
+	return Object.entries(values).flatMap(([key, value]) => {
+		if (!shape[key]) {
+			return [`${prefix}${key}`];
+		}
+		const nestedShape = getObjectShape(shape[key]);
+		return nestedShape && isPlainObject(value)
+			? getUnknownPaths(nestedShape, value, `${prefix}${key}.`)
+			: [];
+	});
+}
+
+/**
+ * Converts a raw command-line value into the type declared by the schema.
+ * Values that cannot be converted are returned untouched so that Zod reports
+ * them through the regular validation error path.
+ */
+function coerceArgValue(schema: z.ZodTypeAny, value: unknown): unknown {
+	const inner = unwrapSchema(schema);
+
+	if (inner instanceof z.ZodArray) {
+		const items = Array.isArray(value) ? value : [value];
+		return items.map((item) => coerceArgValue(inner.element, item));
+	}
+
+	if (inner instanceof z.ZodObject && isPlainObject(value)) {
+		return coerceArgs(inner.shape as Record<string, z.ZodTypeAny>, value);
+	}
+
+	// JSON input carries bigints as numbers
+	if (
+		inner instanceof z.ZodBigInt &&
+		typeof value === "number" &&
+		Number.isInteger(value)
+	) {
+		return BigInt(value);
+	}
+
+	if (typeof value !== "string") {
+		return value;
+	}
+
+	if (inner instanceof z.ZodNumber) {
+		const trimmed = value.trim();
+		const parsed = Number(trimmed);
+		return trimmed !== "" && !Number.isNaN(parsed) ? parsed : value;
+	}
+
+	if (inner instanceof z.ZodBoolean) {
+		const normalized = value.trim().toLowerCase();
+		if (TRUE_VALUES.includes(normalized)) {
+			return true;
+		}
+		if (FALSE_VALUES.includes(normalized)) {
+			return false;
+		}
+		return value;
+	}
+
+	if (inner instanceof z.ZodBigInt) {
+		try {
+			return BigInt(value.trim());
+		} catch {
+			return value;
+		}
+	}
+
+	if (inner instanceof z.ZodDate) {
+		const date = new Date(value.trim());
+		return Number.isNaN(date.getTime()) ? value : date;
+	}
+
+	if (inner instanceof z.ZodNativeEnum) {
+		const enumObject = inner.enum as Record<string, string | number>;
+		// Accept both member names and member values
+		if (
+			Object.prototype.hasOwnProperty.call(enumObject, value) &&
+			typeof enumObject[enumObject[value]] !== "number"
+		) {
+			return enumObject[value];
+		}
+		const numeric = Number(value);
+		if (value.trim() !== "" && Object.values(enumObject).includes(numeric)) {
+			return numeric;
+		}
+		return value;
+	}
+
+	if (inner instanceof z.ZodLiteral) {
+		const literal = inner.value;
+		return String(literal) === value ? literal : value;
+	}
+
+	if (inner instanceof z.ZodUnion) {
+		for (const option of inner.options as z.ZodTypeAny[]) {
+			const candidate = coerceArgValue(option, value);
+			if (option.safeParse(candidate).success) {
+				return candidate;
+			}
+		}
+		return value;
+	}
+
+	return value;
+}
+
+/**
+ * Coerces every parsed option whose key is declared in the input shape.
+ */
+function coerceArgs(
+	shape: Record<string, z.ZodTypeAny> | null,
+	options: Record<string, unknown>,
+): Record<string, unknown> {
+	if (!shape) {
+		return options;
+	}
+
+	const coerced: Record<string, unknown> = {};
+
+	for (const [key, value] of Object.entries(options)) {
+		coerced[key] = shape[key] ? coerceArgValue(shape[key], value) : value;
+	}
+
+	return coerced;
+}
+
+/**
+ * Coerces JSON input, as sent to MCP tools and HTTP endpoints, into the
+ * types its JSON Schema describes as strings and numbers, such as dates and
+ * bigints
+ */
+function coerceJsonInput(
+	schema: z.ZodTypeAny | undefined,
+	input: unknown,
+): unknown {
+	const shape = getObjectShape(schema);
+	return shape && isPlainObject(input) ? coerceArgs(shape, input) : input;
+}
+
+/**
+ * Short type label used in help and generated docs, e.g. `string[]` or `a|b`
+ */
+function getSchemaTypeName(schema: z.ZodTypeAny): string {
+	if (!schema._def) {
+		return "unknown";
+	}
+
+	const def = unwrapSchema(schema)._def;
+
+	if ("typeName" in def) {
+		const typeName = def.typeName as string;
+		if (typeName === "ZodString") {
+			return "string";
+		}
+		if (typeName === "ZodNumber") {
+			return "number";
+		}
+		if (typeName === "ZodBoolean") {
+			return "boolean";
+		}
+		if (typeName === "ZodBigInt") {
+			return "bigint";
+		}
+		if (typeName === "ZodDate") {
+			return "date";
+		}
+		if (typeName === "ZodArray" && "type" in def) {
+			return `${getSchemaTypeName(def.type as z.ZodTypeAny)}[]`;
+		}
+		if (typeName === "ZodObject") {
+			return "object";
+		}
+		if (typeName === "ZodEnum" && "values" in def) {
+			return (def.values as string[]).join("|");
+		}
+		if (typeName === "ZodNativeEnum" && "values" in def) {
+			return Object.keys(def.values as Record<string, unknown>)
+				.filter((key) => Number.isNaN(Number(key)))
+				.join("|");
+		}
+	}
+
+	return "unknown";
+}
+
+/**
+ * Returns the value a `.default()` wrapper would produce, if any
+ */
+function getSchemaDefault(schema: z.ZodTypeAny): unknown {
+	let current: z.ZodTypeAny | undefined = schema;
+
+	while (current?._def) {
+		if (current._def.typeName === "ZodDefault") {
+			return current._def.defaultValue();
+		}
+		current = unwrapSchemaOnce(current);
+	}
+
+	return undefined;
+}
+
+/**
+ * Returns the first `.describe()` text found while unwrapping the schema
+ */
+function getSchemaDescription(schema: z.ZodTypeAny): string {
+	let current: z.ZodTypeAny | undefined = schema;
+
+	while (current?._def) {
+		if (current.description) {
+			return current.description;
+		}
+		current = unwrapSchemaOnce(current);
+	}
+
+	return "";
+}
+
+interface OptionDoc {
+	name: string;
+	short?: string;
+	type: string;
+	required: boolean;
+	description: string;
+	defaultValue?: unknown;
+	/** Config key the option defaults to, from `configDefaults` */
+	configKey?: string;
+}
+
+/**
+ * Flattens an input shape into one entry per option. Nested object fields
+ * are listed with their full dotted path, e.g. `db.host`.
+ */
+function getOptionDocs(
+	shape: Record<string, z.ZodTypeAny>,
+	flags: Record<string, string>,
+	configDefaults: Record<string, string> = {},
+	prefix = "",
+	parentRequired = true,
+): OptionDoc[] {
+	return Object.entries(shape).flatMap(([key, schema]) => {
+		const name = `${prefix}${key}`;
+		const required = parentRequired && !schema.isOptional();
+		const nestedShape = getNestedShape(schema);
+
+		if (nestedShape && Object.keys(nestedShape).length > 0) {
+			return getOptionDocs(
+				nestedShape,
+				flags,
+				configDefaults,
+				`${name}.`,
+				required,
+			);
+		}
+
+		return [
+			{
+				name,
+				short: flags[name],
+				type: getSchemaTypeName(schema),
+				required,
+				description: getSchemaDescription(schema),
+				defaultValue: getSchemaDefault(schema),
+				configKey: configDefaults[name],
+			},
+		];
+	});
+}
+
+/**
+ * Usage placeholders for a command's positional arguments, e.g. `<name> [tags...]`
+ */
+function formatUsageArgs(command: CommandDefinition<unknown, unknown>): string {
+	const shape = getObjectShape(command.inputSchema);
+
+	return (command.positional || [])
+		.map((name) => {
+			const variadic = name.endsWith("...");
+			const field = variadic ? name.slice(0, -3) : name;
+			const schema = shape?.[field];
+			const optional = !schema || schema.isOptional();
+			const label = variadic ? `${field}...` : field;
+			return optional ? `[${label}]` : `<${label}>`;
+		})
+		.join(" ");
+}
+
+/**
+ * Renders an example input as command-line arguments
+ */
+function formatExampleArgs(
+	example: unknown,
+	command?: CommandDefinition<unknown, unknown>,
+): string {
+	if (!example || typeof example !== "object") {
+		return "";
+	}
+
+	const values = { ...(example as Record<string, unknown>) };
+	const quote = (value: unknown) =>
+		/\s/.test(String(value)) ? `"${value}"` : String(value);
+	const positionalArgs: string[] = [];
+
+	for (const name of command?.positional || []) {
+		const field = name.endsWith("...") ? name.slice(0, -3) : name;
+		if (!(field in values)) {
+			break;
+		}
+		const value = values[field];
+		positionalArgs.push(...(Array.isArray(value) ? value : [value]).map(quote));
+		delete values[field];
+	}
+
+	const flagArgs = Object.entries(values).map(([key, value]) => {
+		if (value === true) {
+			return `--${key}`;
+		}
+		return `--${key}=${value}`;
+	});
+
+	return [...positionalArgs, ...flagArgs].join(" ");
+}
+
+function escapeMarkdownCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Escapes text for roff: backslashes, hyphens and control characters at the
+ * start of a line would otherwise be interpreted as formatting requests.
+ */
+function escapeRoff(value: string): string {
+	return value
+		.replace(/\\/g, "\\e")
+		.replace(/-/g, "\\-")
+		.replace(/^([.'])/gm, "\\&$1");
+}
+
+export type DocsFormat = "markdown" | "man";
+
+export interface DocsFile {
+	/** Path relative to the output directory */
+	path: string;
+	content: string;
+}
+
+/**
+ * Generates reference documentation from the command registry: one Markdown
+ * file per command plus an `index.md`, and optionally roff man pages.
+ * Hidden commands are left out.
+ */
+export class DocsGenerator {
+	private cli: CliBuilder;
+
+	constructor(cli: CliBuilder) {
+		this.cli = cli;
+	}
+
+	generate(formats: DocsFormat[] = ["markdown"]): DocsFile[] {
+		const commands = this.getVisibleCommands();
+		const files: DocsFile[] = [];
+
+		if (formats.includes("markdown")) {
+			files.push({ path: "index.md", content: this.renderMarkdownIndex() });
+			for (const [name, command] of commands) {
+				files.push({
+					path: `${this.getFileName(name)}.md`,
+					content: this.renderMarkdownCommand(name, command),
+				});
+			}
+		}
+
+		if (formats.includes("man")) {
+			const { name: cliName } = this.cli.getMetadata();
+			files.push({
+				path: `man/${cliName}.1`,
+				content: this.renderManIndex(),
+			});
+			for (const [name, command] of commands) {
+				files.push({
+					path: `man/${cliName}-${this.getFileName(name)}.1`,
+					content: this.renderManCommand(name, command),
+				});
+			}
+		}
+
+		return files;
+	}
+
+	/**
+	 * Writes the generated files below `outDir` and returns their paths
+	 */
+	write(outDir: string, formats?: DocsFormat[]): string[] {
+		return this.generate(formats).map((file) => {
+			const filePath = path.resolve(outDir, file.path);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, file.content);
+			return filePath;
+		});
+	}
+
+	private getVisibleCommands(): [
+		string,
+		CommandDefinition<unknown, unknown>,
+	][] {
+		return Array.from(this.cli.getCommands().entries()).filter(
+			([, command]) => !command.metadata?.hidden,
+		);
+	}
+
+	private getSubcommands(
+		name: string,
+	): [string, CommandDefinition<unknown, unknown>][] {
+		return this.getVisibleCommands().filter(([subName]) =>
+			subName.startsWith(`${name}:`),
+		);
+	}
+
+	/**
+	 * Subcommands are listed under the group of their top-level command
+	 */
+	private getGroup(
+		name: string,
+		command: CommandDefinition<unknown, unknown>,
+	): string {
+		const root = this.cli.getCommands().get(name.split(":")[0]) ?? command;
+		return (root.metadata?.group as string) || "General";
+	}
+
+	private getFileName(name: string): string {
+		return name.replace(/:/g, "-");
+	}
+
+	private getUsage(name: string, command: CommandDefinition<unknown, unknown>) {
+		const usageArgs = formatUsageArgs(command);
+		return `${this.cli.getMetadata().name} ${name.replace(/:/g, " ")}${usageArgs ? ` ${usageArgs}` : ""} [options]`;
+	}
+
+	private renderMarkdownIndex(): string {
+		const metadata = this.cli.getMetadata();
+		const lines = [`# ${metadata.name}`, ""];
+
+		if (metadata.description) {
+			lines.push(metadata.description, "");
+		}
+		if (metadata.version) {
+			lines.push(`**Version:** ${metadata.version}  `);
+		}
+		if (metadata.aliases && metadata.aliases.length > 0) {
+			lines.push(`**Aliases:** ${metadata.aliases.join(", ")}  `);
+		}
+		if (metadata.homepage) {
+			lines.push(`**Homepage:** ${metadata.homepage}  `);
+		}
+
+		lines.push(
+			"",
+			"## Usage",
+			"",
+			"```",
+			`${metadata.name} <command> [options]`,
+			"```",
+		);
+
+		const groupedCommands = new Map<
+			string,
+			[string, CommandDefinition<unknown, unknown>][]
+		>();
+		for (const [name, command] of this.getVisibleCommands()) {
+			const group = this.getGroup(name, command);
+			groupedCommands.set(group, [
+				...(groupedCommands.get(group) || []),
+				[name, command],
+			]);
+		}
+
+		lines.push("", "## Commands");
+		for (const [group, commands] of Array.from(groupedCommands.entries())) {
+			lines.push(
+				"",
+				`### ${group}`,
+				"",
+				"| Command | Aliases | Description |",
+				"| --- | --- | --- |",
+			);
+			for (const [name, command] of commands) {
+				lines.push(
+					`| [\`${name.replace(/:/g, " ")}\`](${this.getFileName(name)}.md) | ${escapeMarkdownCell((command.aliases || []).join(", "))} | ${escapeMarkdownCell(command.description)} |`,
+				);
+			}
+		}
+
+		return `${lines.join("\n")}\n`;
+	}
+
+	private renderMarkdownCommand(
+		name: string,
+		command: CommandDefinition<unknown, unknown>,
+	): string {
+		const cliName = this.cli.getMetadata().name;
+		const lines = [`# ${cliName} ${name.replace(/:/g, " ")}`, ""];
+
+		if (command.description) {
+			lines.push(command.description, "");
+		}
+
+		lines.push("## Usage", "", "```", this.getUsage(name, command), "```", "");
+
+		if (command.parent) {
+			lines.push(
+				`**Parent:** [\`${command.parent.replace(/:/g, " ")}\`](${this.getFileName(command.parent)}.md)  `,
+			);
+		}
+		if (command.aliases && command.aliases.length > 0) {
+			lines.push(`**Aliases:** ${command.aliases.join(", ")}  `);
+		}
+		lines.push(`**Group:** ${this.getGroup(name, command)}  `);
+
+		const shape = getObjectShape(command.inputSchema);
+		const options = shape
+			? getOptionDocs(shape, command.flags || {}, command.configDefaults)
+			: [];
+		if (options.length > 0) {
+			lines.push(
+				"",
+				"## Options",
+				"",
+				"| Option | Type | Required | Default | Description |",
+				"| --- | --- | --- | --- | --- |",
+			);
+			for (const option of options) {
+				const flagNames = option.short
+					? `\`-${option.short}, --${option.name}\``
+					: `\`--${option.name}\``;
+				const defaultValue = [
+					option.configKey ? `config \`${option.configKey}\`` : "",
+					option.defaultValue === undefined
+						? ""
+						: `\`${JSON.stringify(option.defaultValue)}\``,
+				]
+					.filter(Boolean)
+					.join(", then ");
+				lines.push(
+					`| ${flagNames} | \`${escapeMarkdownCell(option.type)}\` | ${option.required ? "yes" : "no"} | ${escapeMarkdownCell(defaultValue)} | ${escapeMarkdownCell(option.description)} |`,
+				);
+			}
+		}
+
+		if (command.examples && command.examples.length > 0) {
+			lines.push("", "## Examples", "", "```bash");
+			for (const example of command.examples) {
+				lines.push(
+					`${cliName} ${name.replace(/:/g, " ")} ${formatExampleArgs(example, command)}`.trimEnd(),
+				);
+			}
+			lines.push("```");
+		}
+
+		const subcommands = this.getSubcommands(name);
+		if (subcommands.length > 0) {
+			lines.push("", "## Subcommands", "");
+			for (const [subName, subcommand] of subcommands) {
+				lines.push(
+					`- [\`${subName.replace(/:/g, " ")}\`](${this.getFileName(subName)}.md) - ${subcommand.description}`,
+				);
+			}
+		}
+
+		lines.push("", "See the [command index](index.md) for all commands.");
+
+		return `${lines.join("\n")}\n`;
+	}
+
+	private renderManIndex(): string {
+		const metadata = this.cli.getMetadata();
+		const lines = [
+			...this.renderManHeader(metadata.name),
+			".SH NAME",
+			`${escapeRoff(metadata.name)} \\- ${escapeRoff(metadata.description || "")}`,
+			".SH SYNOPSIS",
+			`.B ${escapeRoff(metadata.name)}`,
+			"\\fIcommand\\fR [\\fIoptions\\fR]",
+			".SH COMMANDS",
+		];
+
+		for (const [name, command] of this.getVisibleCommands()) {
+			lines.push(
+				".TP",
+				`.B ${escapeRoff(name.replace(/:/g, " "))}`,
+				escapeRoff(command.description),
+			);
+		}
+
+		lines.push(...this.renderManSeeAlso(metadata.name));
+
+		return `${lines.join("\n")}\n`;
+	}
+
+	private renderManCommand(
+		name: string,
+		command: CommandDefinition<unknown, unknown>,
+	): string {
+		const cliName = this.cli.getMetadata().name;
+		const pageName = `${cliName}-${this.getFileName(name)}`;
+		const lines = [
+			...this.renderManHeader(pageName),
+			".SH NAME",
+			`${escapeRoff(pageName)} \\- ${escapeRoff(command.description)}`,
+			".SH SYNOPSIS",
+			escapeRoff(this.getUsage(name, command)),
+		];
+
+		if (command.aliases && command.aliases.length > 0) {
+			lines.push(".SH ALIASES", escapeRoff(command.aliases.join(", ")));
+		}
+
+		const shape = getObjectShape(command.inputSchema);
+		const options = shape
+			? getOptionDocs(shape, command.flags || {}, command.configDefaults)
+			: [];
+		if (options.length > 0) {
+			lines.push(".SH OPTIONS");
+			for (const option of options) {
+				const flagNames = option.short
+					? `-${option.short}, --${option.name}`
+					: `--${option.name}`;
+				const details = [
+					option.required ? "Required." : "",
+					option.configKey ? `Defaults to config key ${option.configKey}.` : "",
+					option.defaultValue === undefined
+						? ""
+						: `Default: ${JSON.stringify(option.defaultValue)}.`,
+				].filter(Boolean);
+				lines.push(
+					".TP",
+					`\\fB${escapeRoff(flagNames)}\\fR \\fI${escapeRoff(option.type)}\\fR`,
+					...[option.description, details.join(" ")]
+						.filter(Boolean)
+						.flatMap((text, index) =>
+							index === 0 ? [escapeRoff(text)] : [".br", escapeRoff(text)],
+						),
+				);
+			}
+		}
+
+		if (command.examples && command.examples.length > 0) {
+			lines.push(".SH EXAMPLES", ".nf");
+			for (const example of command.examples) {
+				lines.push(
+					escapeRoff(
+						`${cliName} ${name.replace(/:/g, " ")} ${formatExampleArgs(example, command)}`.trimEnd(),
+					),
+				);
+			}
+			lines.push(".fi");
+		}
+
+		lines.push(...this.renderManSeeAlso(cliName));
+
+		return `${lines.join("\n")}\n`;
+	}
+
+	private renderManHeader(pageName: string): string[] {
+		const metadata = this.cli.getMetadata();
+		return [
+			`.TH "${escapeRoff(pageName.toUpperCase())}" "1" "" "${escapeRoff(`${metadata.name} ${metadata.version || ""}`.trim())}" "${escapeRoff(metadata.name)} Manual"`,
+		];
+	}
+
+	private renderManSeeAlso(cliName: string): string[] {
+		const metadata = this.cli.getMetadata();
+		const lines = [".SH SEE ALSO", `.BR ${escapeRoff(cliName)} (1)`];
+		if (metadata.homepage) {
+			lines.push(".PP", escapeRoff(metadata.homepage));
+		}
+		return lines;
+	}
+}
+
+/** Bumped whenever the manifest layout changes incompatibly */
+export const MANIFEST_VERSION = 1;
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A Zod construct that has no JSON Schema equivalent. Its place in the
+ * converted schema holds `{ "x-unsupported": type }`.
+ */
+export interface UnsupportedSchemaNode {
+	/** JSON Pointer to the node within the converted schema */
+	path: string;
+	/** Zod type name, e.g. `ZodFunction` */
+	type: string;
+	/**
+	 * Check or effect that was dropped from an otherwise converted node, e.g.
+	 * `trim` on a `ZodString` or `refinement` on a `ZodEffects`
+	 */
+	kind?: string;
+}
+
+export interface CommandManifest {
+	name: string;
+	description: string;
+	parent?: string;
+	group?: string;
+	aliases: string[];
+	flags: Record<string, string>;
+	positional: string[];
+	configDefaults: Record<string, string>;
+	metadata: Record<string, unknown>;
+	input: JsonSchema;
+	output?: JsonSchema;
+	examples: unknown[];
+	unsupported: {
+		input: UnsupportedSchemaNode[];
+		output: UnsupportedSchemaNode[];
+	};
+}
+
+export interface CliManifest {
+	manifestVersion: typeof MANIFEST_VERSION;
+	jsonSchemaDialect: string;
+	metadata: CliMetadata;
+	commands: CommandManifest[];
+}
+
+/**
+ * Converts a Zod schema to JSON Schema (draft 2020-12). Refinements and
+ * transforms are not representable and are described by their input type;
+ * constructs with no equivalent are appended to `unsupported`.
+ */
+export function zodToJsonSchema(
+	schema: z.ZodTypeAny,
+	unsupported: UnsupportedSchemaNode[] = [],
+	pointer = "",
+): JsonSchema {
+	const json = convertSchemaNode(schema, unsupported, pointer);
+
+	if (!json) {
+		const type = schema._def.typeName as string;
+		unsupported.push({ path: pointer || "/", type });
+		return { "x-unsupported": type };
+	}
+	if (schema.description && !("description" in json)) {
+		json.description = schema.description;
+	}
+
+	return json;
+}
+
+function convertSchemaNode(
+	schema: z.ZodTypeAny,
+	unsupported: UnsupportedSchemaNode[],
+	pointer: string,
+): JsonSchema | undefined {
+	const def = schema._def;
+	const convert = (inner: z.ZodTypeAny, suffix = "") =>
+		zodToJsonSchema(inner, unsupported, `${pointer}${suffix}`);
+
+	switch (def.typeName as string) {
+		case "ZodString":
+			return convertStringChecks(def.checks, (kind) =>
+				unsupported.push({ path: pointer || "/", type: "ZodString", kind }),
+			);
+		case "ZodNumber":
+			return convertNumberChecks(def.checks, (kind) =>
+				unsupported.push({ path: pointer || "/", type: "ZodNumber", kind }),
+			);
+		case "ZodBigInt":
+			return { type: "integer", format: "int64" };
+		case "ZodBoolean":
+			return { type: "boolean" };
+		case "ZodDate":
+			return { type: "string", format: "date-time" };
+		case "ZodNull":
+			return { type: "null" };
+		case "ZodAny":
+		case "ZodUnknown":
+			return {};
+		case "ZodNever":
+			return { not: {} };
+		case "ZodLiteral":
+			return { const: toSerializable(def.value) };
+		case "ZodEnum":
+			return { type: "string", enum: def.values };
+		case "ZodNativeEnum":
+			return {
+				enum: Object.entries(def.values as Record<string, unknown>)
+					.filter(([key]) => Number.isNaN(Number(key)))
+					.map(([, value]) => value),
+			};
+		case "ZodArray": {
+			const json: JsonSchema = {
+				type: "array",
+				items: convert(def.type, "/items"),
+			};
+			if (def.minLength) {
+				json.minItems = def.minLength.value;
+			}
+			if (def.maxLength) {
+				json.maxItems = def.maxLength.value;
+			}
+			if (def.exactLength) {
+				json.minItems = def.exactLength.value;
+				json.maxItems = def.exactLength.value;
+			}
+			return json;
+		}
+		case "ZodSet":
+			return {
+				type: "array",
+				uniqueItems: true,
+				items: convert(def.valueType, "/items"),
+			};
+		case "ZodTuple":
+			return {
+				type: "array",
+				prefixItems: (def.items as z.ZodTypeAny[]).map((item, index) =>
+					convert(item, `/prefixItems/${index}`),
+				),
+				items: def.rest ? convert(def.rest, "/items") : false,
+			};
+		case "ZodObject": {
+			const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+			const properties: Record<string, JsonSchema> = {};
+			const required: string[] = [];
+			for (const [key, value] of Object.entries(shape)) {
+				properties[key] = convert(
+					value,
+					`/properties/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`,
+				);
+				if (!value.isOptional()) {
+					required.push(key);
+				}
+			}
+			const json: JsonSchema = { type: "object", properties };
+			if (required.length > 0) {
+				json.required = required;
+			}
+			if (def.catchall && def.catchall._def.typeName !== "ZodNever") {
+				json.additionalProperties = convert(
+					def.catchall,
+					"/additionalProperties",
+				);
+			} else if (def.unknownKeys === "strict") {
+				json.additionalProperties = false;
+			}
+			return json;
+		}
+		case "ZodRecord":
+			return {
+				type: "object",
+				additionalProperties: convert(def.valueType, "/additionalProperties"),
+			};
+		case "ZodUnion":
+		case "ZodDiscriminatedUnion":
+			return {
+				anyOf: (Array.from(def.options) as z.ZodTypeAny[]).map(
+					(option, index) => convert(option, `/anyOf/${index}`),
+				),
+			};
+		case "ZodIntersection":
+			return {
+				allOf: [convert(def.left, "/allOf/0"), convert(def.right, "/allOf/1")],
+			};
+		case "ZodOptional":
+		case "ZodReadonly":
+		case "ZodBranded":
+		case "ZodCatch":
+			return convert(def.innerType ?? def.type);
+		case "ZodNullable":
+			return {
+				anyOf: [convert(def.innerType, "/anyOf/0"), { type: "null" }],
+			};
+		case "ZodDefault":
+			return {
+				...convert(def.innerType),
+				default: toSerializable(def.defaultValue()),
+			};
+		case "ZodEffects": {
+			// Refinements and transforms run code that JSON Schema cannot express
+			unsupported.push({
+				path: pointer || "/",
+				type: "ZodEffects",
+				kind: def.effect.type,
+			});
+			return convert(def.schema);
+		}
+		case "ZodPipeline":
+			return convert(def.in);
+		default:
+			// ZodFunction, ZodPromise, ZodMap, ZodLazy, ZodVoid, ...
+			return undefined;
+	}
+}
+
+function escapePattern(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Sets `pattern`, or adds it to `allOf` when the schema already has one
+ */
+function addPattern(json: JsonSchema, pattern: string): void {
+	if (json.pattern === undefined) {
+		json.pattern = pattern;
+	} else {
+		json.allOf = [...((json.allOf as JsonSchema[]) || []), { pattern }];
+	}
+}
+
+/** JSON Schema formats of Zod string checks; `ip` checks are keyed by version */
+const STRING_FORMATS: Record<string, string> = {
+	email: "email",
+	url: "uri",
+	uuid: "uuid",
+	datetime: "date-time",
+	date: "date",
+	time: "time",
+	duration: "duration",
+	ipv4: "ipv4",
+	ipv6: "ipv6",
+};
+
+/**
+ * Converts the checks of a `ZodString`, reporting those with no JSON Schema
+ * equivalent, such as `trim` or `cuid`, through `drop`
+ */
+function convertStringChecks(
+	checks: {
+		kind: string;
+		value?: unknown;
+		regex?: RegExp;
+		version?: string;
+		position?: number;
+	}[],
+	drop: (kind: string) => void,
+): JsonSchema {
+	const json: JsonSchema = { type: "string" };
+
+	for (const check of checks) {
+		const format =
+			STRING_FORMATS[check.kind === "ip" ? `ip${check.version}` : check.kind];
+
+		switch (check.kind) {
+			case "min":
+				json.minLength = check.value;
+				break;
+			case "max":
+				json.maxLength = check.value;
+				break;
+			case "length": {
+				json.minLength = check.value;
+				json.maxLength = check.value;
+				break;
+			}
+			case "regex":
+				addPattern(json, (check.regex as RegExp).source);
+				break;
+			case "startsWith":
+				addPattern(json, `^${escapePattern(String(check.value))}`);
+				break;
+			case "endsWith":
+				addPattern(json, `${escapePattern(String(check.value))}$`);
+				break;
+			case "includes":
+				if (check.position === undefined) {
+					addPattern(json, escapePattern(String(check.value)));
+				} else {
+					drop(check.kind);
+				}
+				break;
+			default:
+				if (format) {
+					json.format = format;
+				} else {
+					drop(check.kind);
+				}
+		}
+	}
+
+	return json;
+}
+
+/**
+ * Converts the checks of a `ZodNumber`, reporting those with no JSON Schema
+ * equivalent, such as `finite`, through `drop`
+ */
+function convertNumberChecks(
+	checks: { kind: string; value?: number; inclusive?: boolean }[],
+	drop: (kind: string) => void,
+): JsonSchema {
+	const json: JsonSchema = { type: "number" };
+
+	for (const check of checks) {
+		switch (check.kind) {
+			case "int":
+				json.type = "integer";
+				break;
+			case "min":
+				json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+				break;
+			case "max":
+				json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+				break;
+			case "multipleOf":
+				json.multipleOf = check.value;
+				break;
+			default:
+				drop(check.kind);
+		}
+	}
+
+	return json;
+}
+
+// JSON-RPC 2.0 / Model Context Protocol tool server
+
+const MCP_PROTOCOL_VERSIONS = ["2024-11-05", "2025-03-26", "2025-06-18"];
+
+export const JSON_RPC_ERRORS = {
+	parseError: -32700,
+	invalidRequest: -32600,
+	methodNotFound: -32601,
+	invalidParams: -32602,
+	internalError: -32603,
+} as const;
+
+export interface JsonRpcRequest {
+	jsonrpc: "2.0";
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export type JsonRpcResponse =
+	| { jsonrpc: "2.0"; id: string | number | null; result: unknown }
+	| {
+			jsonrpc: "2.0";
+			id: string | number | null;
+			error: { code: number; message: string; data?: unknown };
+	  };
+
+export interface McpTool {
+	name: string;
+	title?: string;
+	description: string;
+	inputSchema: JsonSchema;
+	outputSchema?: JsonSchema;
+}
+
+export interface McpServerOptions {
+	/** Config passed to every handler, as loaded by `Devtool.run` */
+	config?: unknown;
+	/** Extra context passed to every handler */
+	context?: Partial<CommandContext>;
+}
+
+class JsonRpcError extends Error {
+	readonly code: number;
+
+	constructor(code: number, message: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
+/**
+ * Serves commands as Model Context Protocol tools over JSON-RPC 2.0.
+ * Commands are exposed with `:` replaced by `_` (`user:create` becomes
+ * `user_create`); hidden commands and those with `.meta({ serve: false })`
+ * are left out. Calls run through `CliBuilder.invoke`, so middleware and
+ * output validation apply as they do on the command line.
+ */
+export class McpServer {
+	private cli: CliBuilder;
+	private options: McpServerOptions;
+
+	constructor(cli: CliBuilder, options: McpServerOptions = {}) {
+		this.cli = cli;
+		this.options = options;
+	}
+
+	/**
+	 * Commands exposed as tools, keyed by tool name
+	 */
+	getTools(): Map<string, CommandDefinition<unknown, unknown>> {
+		return new Map(
+			getServedCommands(this.cli).map(([name, command]) => [
+				name.replace(/:/g, "_"),
+				command,
+			]),
+		);
+	}
+
+	/**
+	 * Handles one JSON-RPC message and returns the response, or undefined
+	 * for notifications
+	 */
+	async handleMessage(message: unknown): Promise<JsonRpcResponse | undefined> {
+		const request = message as Partial<JsonRpcRequest> | null;
+		const id = request && "id" in request ? (request.id ?? null) : null;
+
+		try {
+			if (
+				!isPlainObject(request) ||
+				request.jsonrpc !== "2.0" ||
+				typeof request.method !== "string"
+			) {
+				throw new JsonRpcError(
+					JSON_RPC_ERRORS.invalidRequest,
+					"Invalid JSON-RPC request",
+				);
+			}
+
+			const result = await this.dispatch(request.method, request.params || {});
+
+			return "id" in request ? { jsonrpc: "2.0", id, result } : undefined;
+		} catch (error) {
+			if ("id" in (request || {}) || !(error instanceof JsonRpcError)) {
+				return {
+					jsonrpc: "2.0",
+					id,
+					error: {
+						code:
+							error instanceof JsonRpcError
+								? error.code
+								: JSON_RPC_ERRORS.internalError,
+						message: error instanceof Error ? error.message : String(error),
+					},
+				};
+			}
+			return undefined;
+		}
+	}
+
+	/**
+	 * Reads newline-delimited JSON-RPC messages from `input` and writes
+	 * responses to `output`, resolving once `input` ends and every pending
+	 * call has been answered
+	 */
+	async listen(
+		input: NodeJS.ReadableStream = process.stdin,
+		output: NodeJS.WritableStream = process.stdout,
+	): Promise<void> {
+		const lines = readline.createInterface({
+			input,
+			crlfDelay: Number.POSITIVE_INFINITY,
+		});
+		const pending: Promise<void>[] = [];
+		const send = (response: JsonRpcResponse | undefined) => {
+			if (response) {
+				output.write(`${JSON.stringify(response)}\n`);
+			}
+		};
+
+		for await (const line of lines) {
+			if (!line.trim()) {
+				continue;
+			}
+
+			let message: unknown;
+			try {
+				message = JSON.parse(line);
+			} catch {
+				send({
+					jsonrpc: "2.0",
+					id: null,
+					error: { code: JSON_RPC_ERRORS.parseError, message: "Parse error" },
+				});
+				continue;
+			}
+
+			pending.push(this.handleMessage(message).then(send));
+		}
+
+		await Promise.all(pending);
+	}
+
+	private async dispatch(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<unknown> {
+		if (method === "initialize") {
+			const metadata = this.cli.getMetadata();
+			const requested = params.protocolVersion as string;
+			return {
+				protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested)
+					? requested
+					: MCP_PROTOCOL_VERSIONS[MCP_PROTOCOL_VERSIONS.length - 1],
+				capabilities: { tools: {} },
+				serverInfo: { name: metadata.name, version: metadata.version },
+			};
+		}
+		if (method === "ping" || method.startsWith("notifications/")) {
+			return {};
+		}
+		if (method === "tools/list") {
+			return { tools: this.listTools() };
+		}
+		if (method === "tools/call") {
+			return this.callTool(params);
+		}
+
+		throw new JsonRpcError(
+			JSON_RPC_ERRORS.methodNotFound,
+			`Method not found: ${method}`,
+		);
+	}
+
+	private listTools(): McpTool[] {
+		return Array.from(this.getTools().entries()).map(([name, command]) => {
+			const tool: McpTool = {
+				name,
+				description: command.description,
+				inputSchema: zodToJsonSchema(command.inputSchema),
+			};
+			if (command.metadata?.title) {
+				tool.title = command.metadata.title as string;
+			}
+			if (command.outputSchema) {
+				const outputSchema = zodToJsonSchema(command.outputSchema);
+				// MCP only accepts object output schemas
+				if (outputSchema.type === "object") {
+					tool.outputSchema = outputSchema;
+				}
+			}
+			return tool;
+		});
+	}
+
+	private async callTool(params: Record<string, unknown>): Promise<unknown> {
+		const command = this.getTools().get(params.name as string);
+		if (!command) {
+			throw new JsonRpcError(
+				JSON_RPC_ERRORS.invalidParams,
+				`Unknown tool: ${params.name}`,
+			);
+		}
+
+		const input = coerceJsonInput(command.inputSchema, params.arguments ?? {});
+		const result = await this.cli.invoke(command, input as never, {
+			config: this.options.config,
+			context: this.options.context,
+		});
 
-		subBuilder.commandMetadata = {
-			group,
-			...restMetadata,
-		};
+		if (!result.ok) {
+			const text = result.validationErrors
+				? [
+						result.error.message,
+						...formatValidationErrorLines(result.validationErrors),
+					].join("\n")
+				: result.error.message;
+			return { content: [{ type: "text", text }], isError: true };
+		}
 
-		// Inherit middleware from parent
-		subBuilder.middlewareFunctions = [...this.middlewareFunctions];
+		const data = toSerializable(result.data);
+		const text =
+			typeof data === "string" ? data : (JSON.stringify(data, null, 2) ?? "");
 
-		return subBuilder;
+		return isPlainObject(data) && command.outputSchema
+			? { content: [{ type: "text", text }], structuredContent: data }
+			: { content: [{ type: "text", text }] };
 	}
 }
 
-export class CliBuilder {
-	private commands: Map<string, CommandDefinition<unknown, unknown>> =
-		new Map();
-	private logger: Logger;
-	private configManager: ConfigManager<unknown> | null = null;
-	private metadata: CliMetadata = {
-		name: "cli",
-		version: "1.0.0",
-	};
-	private globalMiddleware: Middleware<
-		Record<string, unknown>,
-		Record<string, unknown>
-	>[] = [];
+// HTTP server mode
+
+export interface RequestHandlerOptions {
+	/** Config passed to every handler, as loaded by `Devtool.run` */
+	config?: unknown;
+	/** Derives extra handler context from the request, e.g. the current user */
+	context?: (
+		request: http.IncomingMessage,
+	) => Partial<CommandContext> | Promise<Partial<CommandContext>>;
+	/** Largest accepted request body in bytes, defaults to 1 MiB */
+	bodyLimit?: number;
+}
 
-	constructor(logger: Logger) {
-		this.logger = logger;
+export const OPENAPI_PATH = "/openapi.json";
 
-		this.registerCommand({
-			name: "help",
-			description: "Display help information",
-			inputSchema: z.object({
-				command: z.string().optional(),
-			}),
-			handler: async ({ parsedInput, context }) => {
-				return { message: "Help information" };
-			},
-		});
+/**
+ * Commands served over MCP and HTTP, keyed by command name. Hidden commands
+ * and those with `.meta({ serve: false })` are left out.
+ */
+function getServedCommands(
+	cli: CliBuilder,
+): [string, CommandDefinition<unknown, unknown>][] {
+	return Array.from(cli.getCommands().entries()).filter(
+		([, command]) =>
+			!command.metadata?.hidden && command.metadata?.serve !== false,
+	);
+}
 
-		this.registerCommand({
-			name: "version",
-			description: "Display version information",
-			inputSchema: z.object({}),
-			handler: async () => {
-				return { version: this.metadata.version };
-			},
-		});
-	}
+function toRoutePath(commandName: string): string {
+	return `/${commandName.split(":").map(encodeURIComponent).join("/")}`;
+}
 
-	/**
-	 * Set the CLI tool metadata
-	 */
-	setMetadata(metadata: Partial<CliMetadata>): CliBuilder {
-		this.metadata = { ...this.metadata, ...metadata };
-		return this;
+/**
+ * Routes `POST /a/b/c` to the `a:b:c` command and serves an OpenAPI document
+ * at `/openapi.json`. Calls run through `CliBuilder.invoke`, so input and
+ * output validation and the middleware chain apply as on the command line.
+ */
+export class HttpCommandRouter {
+	private cli: CliBuilder;
+	private options: RequestHandlerOptions;
+
+	constructor(cli: CliBuilder, options: RequestHandlerOptions = {}) {
+		this.cli = cli;
+		this.options = options;
 	}
 
 	/**
-	 * Get the CLI tool metadata
+	 * Answers one request. Errors, including a malformed URL or a failing
+	 * `context` option, become JSON error responses instead of rejections.
 	 */
-	getMetadata(): CliMetadata {
-		return this.metadata;
+	async handle(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	): Promise<void> {
+		try {
+			await this.route(request, response);
+		} catch (error) {
+			if (response.headersSent) {
+				response.destroy();
+				return;
+			}
+			this.send(response, error instanceof HttpError ? error.status : 500, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
 	}
 
-	configure<T>(options: ConfigOptions<T>): CliBuilder {
-		this.configManager = new ConfigManager<T>(options, this.logger);
-		return this;
-	}
+	private async route(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	): Promise<void> {
+		const pathname = this.getPathname(request);
 
-	use<
-		MiddlewareContext extends Record<string, unknown>,
-		MiddlewareMetadata extends Record<string, unknown>,
-	>(
-		middlewareFn:
-			| MiddlewareFunction<
-					unknown,
-					unknown,
-					MiddlewareContext,
-					MiddlewareMetadata
-			  >
-			| Middleware<MiddlewareContext, MiddlewareMetadata>,
-	): CliBuilder {
-		if (typeof middlewareFn === "function") {
-			// If it's a function, convert it to a middleware
-			const middleware = createMiddleware<
-				MiddlewareContext,
-				MiddlewareMetadata
-			>().define(middlewareFn);
-			this.globalMiddleware.push(
-				middleware as unknown as Middleware<
-					Record<string, unknown>,
-					Record<string, unknown>
-				>,
-			);
-		} else {
-			// If it's already a middleware object
-			this.globalMiddleware.push(
-				middlewareFn as unknown as Middleware<
-					Record<string, unknown>,
-					Record<string, unknown>
-				>,
-			);
+		if (pathname === OPENAPI_PATH && request.method === "GET") {
+			this.send(response, 200, this.getOpenApiDocument());
+			return;
 		}
 
-		return this;
-	}
+		const route = getServedCommands(this.cli).find(
+			([name]) => toRoutePath(name) === pathname,
+		);
+		if (!route) {
+			this.send(response, 404, { error: `Not found: ${pathname}` });
+			return;
+		}
+		if (request.method !== "POST") {
+			response.setHeader("Allow", "POST");
+			this.send(response, 405, { error: "Method not allowed" });
+			return;
+		}
 
-	add(config: CommandConfig): ActionBuilder<unknown, unknown> {
-		const { command, description, group = "default", ...metadata } = config;
-		const builder = new ActionBuilder(command, description || "");
-		builder.setCliBuilder(this);
-		builder.meta({ group, ...metadata });
+		let input: unknown;
+		try {
+			input = await this.readBody(request);
+		} catch (error) {
+			this.send(response, error instanceof HttpError ? error.status : 400, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return;
+		}
 
-		// Add global middleware to the action builder
-		let builderWithMiddleware = builder;
-		this.globalMiddleware.forEach((middleware) => {
-			builderWithMiddleware = builderWithMiddleware.use(
-				middleware as unknown as Middleware<
-					Record<string, unknown>,
-					Record<string, unknown>
-				>,
+		const [, command] = route;
+		const result = await this.cli.invoke(
+			command,
+			coerceJsonInput(command.inputSchema, input) as never,
+			{
+				config: this.options.config,
+				context: {
+					request,
+					...(await this.options.context?.(request)),
+				},
+			},
+		);
+
+		if (result.ok) {
+			if (result.data === undefined) {
+				response.statusCode = 204;
+				response.end();
+			} else {
+				this.send(response, 200, toSerializable(result.data));
+			}
+		} else if (result.validationErrors) {
+			this.send(
+				response,
+				400,
+				flattenValidationErrors(result.validationErrors),
 			);
-		});
+		} else {
+			this.send(response, 500, {
+				error: result.error.message,
+				code:
+					result.error instanceof CommandError ? result.error.code : undefined,
+			});
+		}
+	}
 
-		return builderWithMiddleware;
+	/**
+	 * OpenAPI 3.1 description of every served command
+	 */
+	getOpenApiDocument(): Record<string, unknown> {
+		const metadata = this.cli.getMetadata();
+		const paths: Record<string, unknown> = {};
+
+		for (const [name, command] of getServedCommands(this.cli)) {
+			paths[toRoutePath(name)] = {
+				post: {
+					operationId: name.replace(/:/g, "_"),
+					summary: command.description,
+					tags: command.metadata?.group ? [command.metadata.group] : undefined,
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: zodToJsonSchema(command.inputSchema),
+							},
+						},
+					},
+					responses: {
+						"200": {
+							description: "Command result",
+							content: {
+								"application/json": {
+									schema: command.outputSchema
+										? zodToJsonSchema(command.outputSchema)
+										: {},
+								},
+							},
+						},
+						"204": { description: "Command returned no result" },
+						"400": {
+							description: "Invalid input",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/ValidationErrors" },
+								},
+							},
+						},
+						"500": {
+							description: "Command failed",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					},
+				},
+			};
+		}
+
+		return toSerializable({
+			openapi: "3.1.0",
+			info: {
+				title: metadata.name,
+				version: metadata.version || "1.0.0",
+				description: metadata.description,
+			},
+			paths,
+			components: {
+				schemas: {
+					// biome-ignore lint/style/useNamingConvention: OpenAPI component names are PascalCase
+					ValidationErrors: {
+						type: "object",
+						properties: {
+							formErrors: { type: "array", items: { type: "string" } },
+							fieldErrors: {
+								type: "object",
+								additionalProperties: {
+									type: "array",
+									items: { type: "string" },
+								},
+							},
+						},
+						required: ["formErrors", "fieldErrors"],
+					},
+					// biome-ignore lint/style/useNamingConvention: OpenAPI component names are PascalCase
+					Error: {
+						type: "object",
+						properties: {
+							error: { type: "string" },
+							code: { type: "string" },
+						},
+						required: ["error"],
+					},
+				},
+			},
+		}) as Record<string, unknown>;
 	}
 
-	getCommands(): Map<string, CommandDefinition<unknown, unknown>> {
-		return this.commands;
+	private getPathname(request: http.IncomingMessage): string {
+		try {
+			return new URL(request.url || "/", "http://localhost").pathname;
+		} catch {
+			throw new HttpError(400, `Invalid request URL: ${request.url}`);
+		}
 	}
 
-	getConfigManager(): ConfigManager<unknown> | null {
-		return this.configManager;
+	private async readBody(request: http.IncomingMessage): Promise<unknown> {
+		const limit = this.options.bodyLimit ?? 1024 * 1024;
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		for await (const chunk of request) {
+			size += chunk.length;
+			if (size > limit) {
+				throw new HttpError(413, "Request body too large");
+			}
+			chunks.push(chunk);
+		}
+
+		const body = Buffer.concat(chunks).toString("utf-8");
+		if (!body.trim()) {
+			return {};
+		}
+
+		try {
+			return JSON.parse(body);
+		} catch {
+			throw new HttpError(400, "Request body is not valid JSON");
+		}
 	}
 
-	registerCommand(command: CommandDefinition<unknown, unknown>): void {
-		this.commands.set(command.name, command);
+	private send(
+		response: http.ServerResponse,
+		status: number,
+		body: unknown,
+	): void {
+		response.statusCode = status;
+		response.setHeader("Content-Type", "application/json");
+		response.end(JSON.stringify(body));
 	}
+}
 
-	async run(options: CliOptions = {}): Promise<void> {
-		const devtool = new Devtool(this, options);
-		return devtool.run();
+class HttpError extends Error {
+	readonly status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.status = status;
 	}
 }
 
+/**
+ * A command line split into the command, its options and the global flags
+ */
+interface ParsedArgs {
+	command: string;
+	options: Record<string, unknown>;
+	output?: string;
+	interactive?: boolean;
+	configPath?: string;
+	configOverrides?: string[];
+}
+
 export class Devtool<T = unknown> {
 	private config: unknown;
 	private logger: Logger;
@@ -941,6 +6932,9 @@ export class Devtool<T = unknown> {
 	private cliOptions: CliOptions;
 	private cliBuilder: CliBuilder;
 	private metadata: CliMetadata;
+	private shutdownPromise: Promise<void> | null = null;
+	private pluginsLoaded: Promise<void> | null = null;
+	private configuredPluginsLoaded = false;
 
 	// Utility method to convert space-delimited to colon-delimited format
 	private toInternalCommandFormat(command: string): string {
@@ -972,8 +6966,13 @@ export class Devtool<T = unknown> {
 			}
 		}
 
-		if (cliOptions.pluginsDir) {
+		if (
+			cliOptions.pluginsDir ||
+			cliOptions.plugins ||
+			cliOptions.discoverPlugins
+		) {
 			this.pluginManager = new PluginManager(cliBuilder, this.logger);
+			this.pluginManager.registerCommands();
 		}
 
 		this.configManager =
@@ -982,99 +6981,581 @@ export class Devtool<T = unknown> {
 
 	async initialize(
 		commandLineArgs: Record<string, unknown> = {},
+		options: LoadConfigOptions = {},
+	): Promise<void> {
+		await this.loadConfig(commandLineArgs, options);
+		await this.loadPlugins();
+		await this.loadConfiguredPlugins();
+	}
+
+	private async loadConfig(
+		commandLineArgs: Record<string, unknown> = {},
+		options: LoadConfigOptions = {},
 	): Promise<void> {
 		if (this.configManager) {
-			this.config = await this.configManager.loadConfig(commandLineArgs);
+			this.config = await this.configManager.loadConfig(
+				commandLineArgs,
+				options,
+			);
 		} else {
 			this.config = {};
 		}
+		await this.pluginManager?.runHook("afterConfigLoad", {
+			config: this.config,
+		});
+	}
+
+	private parseConfigOverrides(
+		overrides: string[] = [],
+	): Record<string, unknown> {
+		return this.configManager && overrides.length > 0
+			? this.configManager.parseOverrides(overrides)
+			: {};
+	}
+
+	/**
+	 * Invokes a command, calling the plugin hooks before and after input
+	 * validation and after the handler
+	 */
+	private async invokeCommand(
+		command: CommandDefinition<unknown, unknown>,
+		input: Record<string, unknown>,
+	): Promise<CommandResult<unknown>> {
+		const name = this.toDisplayCommandFormat(command.name);
+		const startedAt = Date.now();
+		let parsedInput: unknown;
+
+		const result = await this.cliBuilder.invoke(command, input, {
+			config: this.config,
+			context: { logger: this.logger },
+			beforeValidation: (rawInput) =>
+				this.pluginManager?.runHook("beforeValidation", {
+					command: name,
+					input: rawInput,
+					config: this.config,
+				}),
+			afterValidation: (validInput) => {
+				parsedInput = validInput;
+				return this.pluginManager?.runHook("beforeCommand", {
+					command: name,
+					input: validInput,
+					config: this.config,
+				});
+			},
+		});
+
+		if (result.ok) {
+			await this.pluginManager?.runHook("afterCommand", {
+				command: name,
+				input: parsedInput,
+				config: this.config,
+				result: result.data,
+				durationMs: Date.now() - startedAt,
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Runs a plugin hook whose own failure is logged rather than replacing
+	 * the error or exit being reported
+	 */
+	private async runHookSafely<K extends keyof PluginEvents>(
+		hook: K,
+		event: PluginEvents[K],
+	): Promise<void> {
+		try {
+			await this.pluginManager?.runHook(hook, event);
+		} catch (error) {
+			this.logger.error(
+				`Plugin ${hook} hook failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Runs the plugin `shutdown` hooks, once per run
+	 */
+	private shutdown(signal?: NodeJS.Signals): Promise<void> {
+		if (!this.shutdownPromise) {
+			this.shutdownPromise = this.runHookSafely("shutdown", { signal });
+		}
+		return this.shutdownPromise;
+	}
+
+	/**
+	 * Waits for the `shutdown` hooks of the current run, so the next `run` or
+	 * `execute` call runs them again
+	 */
+	private async endRun(): Promise<void> {
+		await this.shutdown();
+		this.shutdownPromise = null;
+	}
+
+	/**
+	 * Runs the plugin `shutdown` hooks on SIGINT and SIGTERM, then exits
+	 * unless another listener (such as `serve`) handles the signal. Returns a
+	 * function that removes the listeners.
+	 */
+	private handleShutdownSignals(): () => void {
+		const hasShutdownHooks = this.pluginManager
+			?.getAllPlugins()
+			.some((plugin) => plugin.shutdown);
+		if (!hasShutdownHooks) {
+			return () => undefined;
+		}
+
+		const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+		const removeListeners = () => {
+			for (const signal of signals) {
+				process.off(signal, onSignal);
+			}
+		};
+		const onSignal = (signal: NodeJS.Signals) => {
+			removeListeners();
+			process.exitCode = 128 + os.constants.signals[signal];
+			this.shutdown(signal).finally(() => {
+				if (process.listenerCount(signal) === 0) {
+					process.exit();
+				}
+			});
+		};
+
+		for (const signal of signals) {
+			process.once(signal, onSignal);
+		}
+		return removeListeners;
+	}
+
+	/**
+	 * Loads the explicitly listed plugins, then those in `pluginsDir`, then
+	 * linked and installed ones, then discovered packages. The first plugin
+	 * loaded under a name wins. Plugins are loaded once per Devtool.
+	 */
+	private loadPlugins(): Promise<void> {
+		if (!this.pluginsLoaded) {
+			this.pluginsLoaded = this.loadAllPlugins();
+		}
+		return this.pluginsLoaded;
+	}
 
-		if (this.cliOptions.pluginsDir && this.pluginManager) {
+	private async loadAllPlugins(): Promise<void> {
+		if (!this.pluginManager) {
+			return;
+		}
+		if (this.cliOptions.plugins) {
+			await this.pluginManager.loadPlugins(this.cliOptions.plugins);
+		}
+		if (this.cliOptions.pluginsDir) {
 			await this.pluginManager.loadPluginsFromDirectory(
 				this.cliOptions.pluginsDir,
 			);
 		}
+		await this.pluginManager.loadInstalledPlugins();
+		if (this.cliOptions.discoverPlugins) {
+			await this.pluginManager.loadPluginsFromNodeModules();
+		}
 	}
 
-	private parseArgs(argv: string[]): {
-		command: string;
-		options: Record<string, unknown>;
-	} {
-		if (argv.length < 3) {
-			return { command: "help", options: {} };
+	/**
+	 * Loads the plugins listed under the `plugins` key of the loaded config,
+	 * once per Devtool. Relative paths resolve from the file listing them.
+	 * Returns whether any were loaded.
+	 */
+	private async loadConfiguredPlugins(): Promise<boolean> {
+		const plugins = (this.config as { plugins?: unknown } | undefined)?.plugins;
+		if (
+			this.configuredPluginsLoaded ||
+			!this.pluginManager ||
+			!Array.isArray(plugins)
+		) {
+			return false;
 		}
 
-		const processArgs = argv.slice(2);
+		this.configuredPluginsLoaded = true;
+		const file = this.configManager?.getSource("plugins")?.file;
+		await this.pluginManager.loadPlugins(
+			plugins.filter((plugin) => typeof plugin === "string"),
+			file ? path.dirname(file) : process.cwd(),
+		);
+		return true;
+	}
+
+	/**
+	 * Loads the config and the plugins it lists, then finds the command named
+	 * by `argv`. The arguments are parsed again once those plugins are loaded,
+	 * since the command may be one of theirs.
+	 */
+	private async resolveCommand(
+		argv: string[],
+		args: ParsedArgs,
+	): Promise<{
+		args: ParsedArgs;
+		commandAction: CommandDefinition<unknown, unknown>;
+	}> {
+		await this.loadConfig(this.parseConfigOverrides(args.configOverrides), {
+			configPath: args.configPath,
+		});
+		const parsed = (await this.loadConfiguredPlugins())
+			? this.parseArgs(argv)
+			: args;
+		const commandAction =
+			this.commands.get(parsed.command) ||
+			this.commands.get(this.aliases.get(parsed.command) || "");
+
+		if (!commandAction) {
+			throw new UnknownCommandError(
+				parsed.command,
+				this.cliBuilder.suggestCommands(parsed.command),
+			);
+		}
+
+		return { args: parsed, commandAction };
+	}
 
-		if (processArgs.includes("--help") || processArgs.includes("-h")) {
+	private parseArgs(argv: string[]): ParsedArgs {
+		if (argv.length < 3) {
 			return { command: "help", options: {} };
 		}
 
-		if (processArgs.includes("--version") || processArgs.includes("-v")) {
-			return { command: "version", options: {} };
-		}
+		const processArgs = argv.slice(2);
 
 		const commandParts: string[] = [];
 		let i = 0;
 
-		// Collect all parts until we hit an option (--flag)
-		while (i < processArgs.length && !processArgs[i].startsWith("--")) {
+		// Collect all parts until we hit an option (--flag or -f)
+		while (i < processArgs.length && !processArgs[i].startsWith("-")) {
 			commandParts.push(processArgs[i]);
 			i++;
 		}
 
-		// Convert space-delimited command to colon-delimited format internally
-		// We join the command parts with ":" to maintain backward compatibility with the internal API
-		let command = this.toInternalCommandFormat(commandParts.join(" "));
+		const { command, consumed } = this.resolveCommandPath(commandParts);
+		const leadingOperands = commandParts.slice(consumed);
 
-		if (command === "help" && commandParts.length > 1) {
+		if (command === "help" && leadingOperands.length > 0) {
 			// For help command, handle subcommand properly
 			const helpTarget = this.toInternalCommandFormat(
-				commandParts.slice(1).join(" "),
+				leadingOperands.join(" "),
 			);
 			return {
 				command: "help",
-				options: { command: helpTarget },
+				options: { command: this.aliases.get(helpTarget) || helpTarget },
 			};
 		}
 
-		// Check if this command is an alias
-		if (this.aliases.has(command)) {
-			const aliasTarget = this.aliases.get(command);
+		const commandAction = this.commands.get(command);
+		const shortFlags: Record<string, string> = {};
+		for (const [field, short] of Object.entries(commandAction?.flags || {})) {
+			shortFlags[short] = field;
+		}
+		const flagArgs = processArgs.slice(i);
+		const endOfOptions = flagArgs.indexOf("--");
+		const optionArgs =
+			endOfOptions === -1 ? flagArgs : flagArgs.slice(0, endOfOptions);
+
+		const shape = getObjectShape(commandAction?.inputSchema);
+		// --help, --manifest and --version are global unless the command
+		// declares a field of that name, -h and -v unless it claims them as
+		// short flags
+		const isGlobalFlag = (name: string, short?: string) =>
+			(optionArgs.includes(`--${name}`) && !shape?.[name]) ||
+			(!!short && optionArgs.includes(`-${short}`) && !(short in shortFlags));
+
+		if (isGlobalFlag("help", "h")) {
+			return commandAction && command !== "help"
+				? { command: "help", options: { command } }
+				: { command: "help", options: {} };
+		}
+
+		if (isGlobalFlag("manifest")) {
+			return { command: MANIFEST_COMMAND, options: {} };
+		}
+
+		if (isGlobalFlag("version", "v")) {
+			return { command: "version", options: {} };
+		}
+
+		const { output, interactive, configPath, configOverrides, args } =
+			this.extractGlobalOptions(flagArgs, shape);
+		const { options, operands } = this.parseOptions(args, shape, shortFlags);
+		const positionalValues = this.assignPositionals(
+			commandAction?.positional || [],
+			[...leadingOperands, ...operands],
+		);
+
+		// Explicit flags take precedence over positional values
+		return {
+			command,
+			options: coerceArgs(shape, { ...positionalValues, ...options }),
+			output,
+			interactive,
+			configPath,
+			configOverrides,
+		};
+	}
+
+	/**
+	 * Removes the global `--output <format>`, `--config <path>`,
+	 * `--set <key=value>` and `--[no-]interactive` options from the arguments,
+	 * unless the command declares fields with those names. `--set` is only
+	 * global when config is configured.
+	 */
+	private extractGlobalOptions(
+		args: string[],
+		shape: Record<string, z.ZodTypeAny> | null,
+	): {
+		output?: string;
+		interactive?: boolean;
+		configPath?: string;
+		configOverrides: string[];
+		args: string[];
+	} {
+		const remaining: string[] = [];
+		const configOverrides: string[] = [];
+		const acceptsSet = !!this.configManager && !shape?.set;
+		let output: string | undefined;
+		let interactive: boolean | undefined;
+		let configPath: string | undefined;
+
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i];
+
+			if (arg === "--") {
+				remaining.push(...args.slice(i));
+				break;
+			}
+
+			if (!shape?.output && arg.startsWith("--output=")) {
+				output = arg.slice("--output=".length);
+			} else if (!shape?.output && arg === "--output" && i + 1 < args.length) {
+				output = args[i + 1];
+				i++;
+			} else if (!shape?.config && arg.startsWith("--config=")) {
+				configPath = arg.slice("--config=".length);
+			} else if (!shape?.config && arg === "--config" && i + 1 < args.length) {
+				configPath = args[i + 1];
+				i++;
+			} else if (acceptsSet && arg.startsWith("--set=")) {
+				configOverrides.push(arg.slice("--set=".length));
+			} else if (acceptsSet && arg === "--set" && i + 1 < args.length) {
+				configOverrides.push(args[i + 1]);
+				i++;
+			} else if (!shape?.interactive && arg === "--interactive") {
+				interactive = true;
+			} else if (!shape?.interactive && arg === "--no-interactive") {
+				interactive = false;
+			} else {
+				remaining.push(arg);
+			}
+		}
+
+		return {
+			output,
+			interactive,
+			configPath,
+			configOverrides,
+			args: remaining,
+		};
+	}
+
+	/**
+	 * Finds the longest run of leading tokens that names a registered command
+	 * or alias. Remaining tokens are left for positional arguments.
+	 */
+	private resolveCommandPath(parts: string[]): {
+		command: string;
+		consumed: number;
+	} {
+		for (let length = parts.length; length > 0; length--) {
+			const candidate = parts.slice(0, length).join(":");
+
+			if (this.commands.has(candidate)) {
+				return { command: candidate, consumed: length };
+			}
+
+			const aliasTarget = this.aliases.get(candidate);
 			if (aliasTarget) {
-				command = aliasTarget;
+				return { command: aliasTarget, consumed: length };
 			}
 		}
 
-		const options: Record<string, unknown> = {};
+		// Convert space-delimited command to colon-delimited format internally
+		// We join the command parts with ":" to maintain backward compatibility with the internal API
+		return {
+			command: this.toInternalCommandFormat(parts.join(" ")),
+			consumed: parts.length,
+		};
+	}
 
-		for (; i < processArgs.length; i++) {
-			const arg = processArgs[i];
+	/**
+	 * Maps leftover tokens onto the command's positional fields in order.
+	 * A trailing `name...` field collects all remaining tokens.
+	 */
+	private assignPositionals(
+		positional: string[],
+		operands: string[],
+	): Record<string, unknown> {
+		const values: Record<string, unknown> = {};
+		let index = 0;
+
+		for (const name of positional) {
+			if (index >= operands.length) {
+				break;
+			}
+
+			if (name.endsWith("...")) {
+				values[name.slice(0, -3)] = operands.slice(index);
+				index = operands.length;
+			} else {
+				values[name] = operands[index];
+				index++;
+			}
+		}
+
+		for (const extra of operands.slice(index)) {
+			this.logger.warn(`Ignoring unexpected argument: ${extra}`);
+		}
+
+		return values;
+	}
+
+	private parseOptions(
+		args: string[],
+		shape: Record<string, z.ZodTypeAny> | null,
+		shortFlags: Record<string, string>,
+	): { options: Record<string, unknown>; operands: string[] } {
+		const options: Record<string, unknown> = {};
+		const operands: string[] = [];
+
+		// Whether the token following a flag should be consumed as its value
+		const takesNext = (key: string, next: string | undefined): boolean =>
+			next !== undefined &&
+			next !== "--" &&
+			(!next.startsWith("-") || this.isNumericArg(next)) &&
+			(!isBooleanSchema(getSchemaAtPath(shape, key)) ||
+				this.isBooleanLiteral(next));
+		const set = (key: string, value: unknown) =>
+			this.setOption(options, key, value, shape);
+
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i];
+
+			if (arg === "--") {
+				// Everything after -- is treated as operands, not options
+				operands.push(...args.slice(i + 1));
+				break;
+			}
 
 			if (arg.startsWith("--")) {
 				const flag = arg.slice(2);
+				const equalsIndex = flag.indexOf("=");
 
-				if (flag.includes("=")) {
-					const [key, value] = flag.split("=", 2);
-					options[key] = value;
+				if (equalsIndex !== -1) {
+					set(flag.slice(0, equalsIndex), flag.slice(equalsIndex + 1));
 				} else if (
-					i + 1 >= processArgs.length ||
-					processArgs[i + 1].startsWith("--")
+					flag.startsWith("no-") &&
+					!getSchemaAtPath(shape, flag) &&
+					isBooleanSchema(getSchemaAtPath(shape, flag.slice(3)))
 				) {
-					options[flag] = true;
-				} else {
-					options[flag] = processArgs[i + 1];
+					// --no-<flag> negates a boolean option
+					set(flag.slice(3), false);
+				} else if (takesNext(flag, args[i + 1])) {
+					set(flag, args[i + 1]);
 					i++;
+				} else {
+					set(flag, true);
 				}
+			} else if (
+				arg.startsWith("-") &&
+				arg.length > 1 &&
+				!this.isNumericArg(arg)
+			) {
+				// Short flags: -v, clusters like -abc, and attached values like -n5
+				const cluster = arg.slice(1);
+
+				for (let j = 0; j < cluster.length; j++) {
+					const key = shortFlags[cluster[j]] || cluster[j];
+					const rest = cluster.slice(j + 1);
+
+					if (isBooleanSchema(getSchemaAtPath(shape, key))) {
+						set(key, true);
+					} else if (rest) {
+						set(key, rest.startsWith("=") ? rest.slice(1) : rest);
+						break;
+					} else if (takesNext(key, args[i + 1])) {
+						set(key, args[i + 1]);
+						i++;
+					} else {
+						set(key, true);
+					}
+				}
+			} else {
+				operands.push(arg);
+			}
+		}
+
+		return { options, operands };
+	}
+
+	/**
+	 * Stores a flag value. Dotted keys such as `db.host` expand into nested
+	 * objects, and flags whose schema is an array accumulate their values.
+	 */
+	private setOption(
+		options: Record<string, unknown>,
+		key: string,
+		value: unknown,
+		shape: Record<string, z.ZodTypeAny> | null,
+	): void {
+		const segments = shape?.[key] ? [key] : key.split(".");
+		if (segments.some((segment) => UNSAFE_KEYS.includes(segment))) {
+			return;
+		}
+
+		let container = options;
+		for (const segment of segments.slice(0, -1)) {
+			if (!isPlainObject(container[segment])) {
+				container[segment] = {};
 			}
+			container = container[segment] as Record<string, unknown>;
+		}
+
+		const lastSegment = segments[segments.length - 1];
+		if (!isArraySchema(getSchemaAtPath(shape, key))) {
+			container[lastSegment] = value;
+			return;
 		}
 
-		return { command, options };
+		const separator = this.cliOptions.arraySeparator;
+		const values =
+			separator && typeof value === "string" ? value.split(separator) : [value];
+		const existing = container[lastSegment];
+		container[lastSegment] = [
+			...(Array.isArray(existing) ? existing : []),
+			...values,
+		];
+	}
+
+	private isNumericArg(value: string): boolean {
+		return /^-\d+(\.\d+)?$/.test(value);
+	}
+
+	private isBooleanLiteral(value: string): boolean {
+		const normalized = value.toLowerCase();
+		return (
+			TRUE_VALUES.includes(normalized) || FALSE_VALUES.includes(normalized)
+		);
 	}
 
 	async run(argv: string[] = process.argv): Promise<void> {
+		let commandName: string | undefined;
+		let removeSignalListeners: () => void = () => undefined;
+
 		try {
-			await this.initialize();
+			this.keepStdoutClean(argv);
+			await this.loadPlugins();
+			removeSignalListeners = this.handleShutdownSignals();
 
 			// Parse arguments using the actual invoked name
 			const invokedBinary = path.basename(argv[1]);
@@ -1084,12 +7565,14 @@ export class Devtool<T = unknown> {
 			// but still process the command as normal
 			const usingAlias = this.metadata.aliases?.includes(invokedBinary);
 
-			const { command, options } = this.parseArgs(argv);
+			const parsed = this.parseArgs(argv);
+			const { command } = parsed;
 
 			if (command === "help") {
-				if (options.command && typeof options.command === "string") {
+				const target = parsed.options.command;
+				if (target && typeof target === "string") {
 					// Display help for a specific command
-					this.displayCommandHelp(options.command);
+					this.displayCommandHelp(target);
 				} else {
 					// Display general help
 					this.displayHelp();
@@ -1102,45 +7585,374 @@ export class Devtool<T = unknown> {
 				return;
 			}
 
-			const commandAction =
-				this.commands.get(command) ||
-				this.commands.get(this.aliases.get(command) || "");
+			const {
+				args: { options, output, interactive },
+				commandAction,
+			} = await this.resolveCommand(argv, parsed);
 
-			if (!commandAction) {
-				this.logger.error(`Unknown command: ${command}`);
-				this.displayHelp();
-				return;
+			commandName = this.toDisplayCommandFormat(commandAction.name);
+			const formatter = this.resolveFormatter(commandAction, output);
+			if (formatter.machineReadable) {
+				this.logToStderr();
+			}
+			this.checkUnknownOptions(commandAction, options);
+
+			const prompter = this.getPrompter(commandAction, interactive);
+			const shape = getObjectShape(commandAction.inputSchema);
+			const withDefaults = applyConfigDefaults(
+				commandAction,
+				options,
+				this.config,
+			) as Record<string, unknown>;
+			const input =
+				prompter && shape
+					? await this.promptForMissingInputs(prompter, shape, withDefaults)
+					: withDefaults;
+
+			const result = await this.invokeCommand(commandAction, input);
+
+			if (!result.ok) {
+				throw result.error;
 			}
 
-			try {
-				const validated = commandAction.inputSchema.parse(options);
-				const result = await commandAction.handler({
-					parsedInput: validated,
-					context: { logger: this.logger },
-					config: this.config,
-				});
+			this.renderOutput(formatter, commandAction, result.data);
+		} catch (error) {
+			await this.runHookSafely("onError", { command: commandName, error });
+			this.handleError(error);
+		} finally {
+			removeSignalListeners();
+			await this.endRun();
+		}
+	}
 
-				if (commandAction.outputSchema && result !== undefined) {
-					commandAction.outputSchema.parse(result);
-				}
-			} catch (error) {
-				if (error instanceof z.ZodError) {
-					this.logger.error("Invalid command arguments:");
-					error.errors.forEach((err) => {
-						this.logger.error(`- ${err.path.join(".")}: ${err.message}`);
-					});
-					this.logger.info("Run with --help for usage information.");
-				} else {
-					this.logger.error(
-						`Error executing command: ${error instanceof Error ? error.message : String(error)}`,
-					);
-				}
+	/**
+	 * Moves `ConsoleLogger` output to stderr when another program reads
+	 * stdout: the shell reads `__complete` candidates, `serve --stdio`
+	 * speaks MCP over it, and `--output json` or `yaml` is meant to be parsed
+	 */
+	private keepStdoutClean(argv: string[]): void {
+		const [command, ...args] = argv.slice(2);
+		const outputIndex = args.indexOf("--output");
+		const output =
+			outputIndex === -1
+				? args
+						.find((arg) => arg.startsWith("--output="))
+						?.slice("--output=".length)
+				: args[outputIndex + 1];
+
+		if (
+			command === COMPLETE_COMMAND ||
+			(command === "serve" && args.includes("--stdio")) ||
+			(output &&
+				this.cliBuilder.getOutputFormatters().getFormatter(output)
+					?.machineReadable)
+		) {
+			this.logToStderr();
+		}
+	}
+
+	private logToStderr(): void {
+		for (const logger of [this.logger, this.cliBuilder.getLogger()]) {
+			if (logger instanceof ConsoleLogger) {
+				logger.logToStderr();
+			}
+		}
+	}
+
+	/**
+	 * Warns about or rejects options the input schema does not declare,
+	 * suggesting the closest declared option names.
+	 */
+	private checkUnknownOptions(
+		command: CommandDefinition<unknown, unknown>,
+		options: Record<string, unknown>,
+	): void {
+		const mode =
+			(command.metadata?.unknownFlags as CliOptions["unknownFlags"]) ??
+			this.cliOptions.unknownFlags ??
+			"warn";
+		const shape = getObjectShape(command.inputSchema);
+
+		if (mode === "ignore" || !shape) {
+			return;
+		}
+
+		const unknownPaths = getUnknownPaths(shape, options);
+		if (unknownPaths.length === 0) {
+			return;
+		}
+
+		const knownPaths = getFieldPaths(shape);
+		const error = new UnknownOptionError(
+			unknownPaths,
+			Object.fromEntries(
+				unknownPaths.map((option) => [
+					option,
+					findSuggestions(option, knownPaths),
+				]),
+			),
+		);
+
+		if (mode === "error") {
+			throw error;
+		}
+
+		for (const line of error.message.split("\n")) {
+			this.logger.warn(line);
+		}
+	}
+
+	/**
+	 * Returns the prompter to use for a command, or null when prompting is off:
+	 * `--no-interactive` was passed, the command opted out, or stdin is not a TTY.
+	 */
+	private getPrompter(
+		command: CommandDefinition<unknown, unknown>,
+		interactive?: boolean,
+	): Prompter | null {
+		const commandSetting = command.metadata?.interactive;
+		const enabled =
+			interactive ??
+			(typeof commandSetting === "boolean"
+				? commandSetting
+				: (this.cliOptions.interactive ?? true));
+
+		if (!enabled) {
+			return null;
+		}
+		if (this.cliOptions.prompter) {
+			return this.cliOptions.prompter;
+		}
+
+		return process.stdin.isTTY ? new ReadlinePrompter() : null;
+	}
+
+	/**
+	 * Prompts for every required field that has no value yet. Nested objects
+	 * are walked so their required fields are asked for with a dotted name.
+	 */
+	private async promptForMissingInputs(
+		prompter: Prompter,
+		shape: Record<string, z.ZodTypeAny>,
+		values: Record<string, unknown>,
+		prefix = "",
+	): Promise<Record<string, unknown>> {
+		const result = { ...values };
+
+		for (const [key, schema] of Object.entries(shape)) {
+			if (schema.isOptional()) {
+				continue;
+			}
+
+			const nestedShape = getNestedShape(schema);
+			if (nestedShape) {
+				const current = result[key];
+				result[key] = await this.promptForMissingInputs(
+					prompter,
+					nestedShape,
+					isPlainObject(current) ? current : {},
+					`${prefix}${key}.`,
+				);
+			} else if (result[key] === undefined) {
+				result[key] = await this.promptForField(
+					prompter,
+					`${prefix}${key}`,
+					schema,
+				);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Asks for a single field until the answer passes the field's own schema
+	 */
+	private async promptForField(
+		prompter: Prompter,
+		name: string,
+		schema: z.ZodTypeAny,
+	): Promise<unknown> {
+		const message = schema.description
+			? `${schema.description} (${name})`
+			: name;
+
+		for (;;) {
+			const answer = await this.askField(prompter, message, schema);
+			const value = coerceArgValue(schema, answer);
+			const parsed = schema.safeParse(value);
+
+			if (parsed.success) {
+				return value;
+			}
+
+			this.logger.error(
+				parsed.error.errors.map((err) => err.message).join(", "),
+			);
+		}
+	}
+
+	private askField(
+		prompter: Prompter,
+		message: string,
+		schema: z.ZodTypeAny,
+	): Promise<unknown> {
+		const inner = unwrapSchema(schema);
+
+		if (getFieldMeta(schema).secret) {
+			return prompter.password(message);
+		}
+		if (inner instanceof z.ZodEnum) {
+			return prompter.select(message, inner.options as string[]);
+		}
+		if (inner instanceof z.ZodNativeEnum) {
+			return prompter.select(
+				message,
+				Object.keys(inner.enum).filter((key) => Number.isNaN(Number(key))),
+			);
+		}
+		if (inner instanceof z.ZodBoolean) {
+			return prompter.confirm(message);
+		}
+		if (inner instanceof z.ZodArray) {
+			const element = unwrapSchema(inner.element);
+			if (element instanceof z.ZodEnum) {
+				return prompter.multiSelect(message, element.options as string[]);
+			}
+			return prompter.text(`${message} (comma-separated)`).then((answer) =>
+				answer
+					.split(",")
+					.map((item) => item.trim())
+					.filter(Boolean),
+			);
+		}
+
+		return prompter.text(message);
+	}
+
+	/**
+	 * Parse and run `argv` (in `process.argv` form) without printing the result.
+	 * Errors are returned as a failed `CommandResult` instead of being logged.
+	 */
+	async execute(
+		argv: string[] = process.argv,
+	): Promise<CommandResult<unknown>> {
+		let commandName: string | undefined;
+
+		try {
+			await this.loadPlugins();
+
+			const {
+				args: { options },
+				commandAction,
+			} = await this.resolveCommand(argv, this.parseArgs(argv));
+
+			commandName = this.toDisplayCommandFormat(commandAction.name);
+			this.checkUnknownOptions(commandAction, options);
+
+			const result = await this.invokeCommand(commandAction, options);
+			if (!result.ok) {
+				throw result.error;
 			}
+			return result;
 		} catch (error) {
+			await this.runHookSafely("onError", { command: commandName, error });
+			return toCommandFailure(error);
+		} finally {
+			await this.endRun();
+		}
+	}
+
+	/**
+	 * Picks the formatter selected by `--output`, the command's `outputFormat`
+	 * metadata, or `text` by default.
+	 */
+	private resolveFormatter(
+		command: CommandDefinition<unknown, unknown>,
+		requestedFormat?: string,
+	): OutputFormatter {
+		const formatName =
+			requestedFormat ||
+			(command.metadata?.outputFormat as string | undefined) ||
+			"text";
+		const formatters = this.cliBuilder.getOutputFormatters();
+		const formatter = formatters.getFormatter(formatName);
+
+		if (!formatter) {
+			throw new CommandError(
+				`Unknown output format: ${formatName}. Available formats: ${formatters.getFormatterNames().join(", ")}`,
+				{ exitCode: EXIT_CODES.usage, code: "UNKNOWN_OUTPUT_FORMAT" },
+			);
+		}
+
+		return formatter;
+	}
+
+	private renderOutput(
+		formatter: OutputFormatter,
+		command: CommandDefinition<unknown, unknown>,
+		result: unknown,
+	): void {
+		if (result === undefined) {
+			return;
+		}
+
+		const rendered = formatter.format(result, { command });
+		if (rendered) {
+			console.log(rendered);
+		}
+	}
+
+	/**
+	 * Reports an error and sets `process.exitCode` from it. Errors that are
+	 * not a `CommandError` exit with `EXIT_CODES.error`.
+	 */
+	private handleError(error: unknown): void {
+		const commandError =
+			error instanceof z.ZodError
+				? CommandValidationError.fromZodError(error)
+				: error;
+
+		if (commandError instanceof UnknownCommandError) {
+			this.logger.error(commandError.message);
+			if (commandError.suggestions.length > 0) {
+				this.logger.info(
+					`Run '${this.metadata.name} help' to see all commands.`,
+				);
+			} else {
+				this.displayHelp();
+			}
+		} else if (commandError instanceof UnknownOptionError) {
+			for (const line of commandError.message.split("\n")) {
+				this.logger.error(line);
+			}
+			this.logger.info("Run with --help for usage information.");
+		} else if (commandError instanceof ConfigError) {
+			for (const line of commandError.message.split("\n")) {
+				this.logger.error(line);
+			}
+		} else if (commandError instanceof CommandValidationError) {
+			this.logger.error("Invalid command arguments:");
+			for (const line of formatValidationErrorLines(
+				commandError.validationErrors,
+			)) {
+				this.logger.error(`- ${line}`);
+			}
+			this.logger.info("Run with --help for usage information.");
+		} else if (commandError instanceof UserAbortError) {
+			this.logger.warn(commandError.message);
+		} else if (commandError instanceof CommandError) {
+			this.logger.error(commandError.message);
+		} else {
 			this.logger.error(
-				`Unexpected error: ${error instanceof Error ? error.message : String(error)}`,
+				`Error executing command: ${error instanceof Error ? error.message : String(error)}`,
 			);
 		}
+
+		process.exitCode =
+			commandError instanceof CommandError
+				? commandError.exitCode
+				: EXIT_CODES.error;
 	}
 
 	private displayHelp(): void {
@@ -1175,8 +7987,8 @@ export class Devtool<T = unknown> {
 
 		// Group commands by their group metadata
 		for (const [name, command] of Array.from(this.commands.entries())) {
-			if (command.parent) {
-				continue; // Skip subcommands for top-level grouping
+			if (command.parent || command.metadata?.hidden) {
+				continue; // Skip subcommands and hidden commands for top-level grouping
 			}
 
 			const group = (command.metadata?.group as string) || "General";
@@ -1228,6 +8040,22 @@ export class Devtool<T = unknown> {
 			}
 		}
 
+		console.log("\nGlobal options:");
+		console.log(
+			`  ${"--output <format>".padEnd(20)} Output format (${this.cliBuilder.getOutputFormatters().getFormatterNames().join(", ")})`,
+		);
+		console.log(
+			`  ${"--no-interactive".padEnd(20)} Do not prompt for missing required options`,
+		);
+		if (this.configManager) {
+			console.log(
+				`  ${"--config <path>".padEnd(20)} Load configuration from this file`,
+			);
+			console.log(
+				`  ${"--set <key=value>".padEnd(20)} Override a configuration value`,
+			);
+		}
+
 		console.log(
 			`\nRun '${this.metadata.name} <command> --help' for more information on a command.`,
 		);
@@ -1237,9 +8065,10 @@ export class Devtool<T = unknown> {
 		const command = this.commands.get(commandName as string);
 
 		if (!command) {
-			this.logger.error(`Unknown command: ${commandName}`);
-			this.displayHelp();
-			return;
+			throw new UnknownCommandError(
+				commandName,
+				this.cliBuilder.suggestCommands(commandName),
+			);
 		}
 
 		// Display with spaces instead of colons for user-facing output
@@ -1248,6 +8077,11 @@ export class Devtool<T = unknown> {
 		console.log(`\nCommand: ${displayName}`);
 		console.log(`Description: ${command.description}`);
 
+		const usageArgs = formatUsageArgs(command);
+		console.log(
+			`Usage: ${this.metadata.name} ${displayName}${usageArgs ? ` ${usageArgs}` : ""} [options]`,
+		);
+
 		// Show parent command if applicable
 		if (command.parent) {
 			const parentDisplayName = this.toDisplayCommandFormat(command.parent);
@@ -1259,29 +8093,15 @@ export class Devtool<T = unknown> {
 			console.log(`Aliases: ${command.aliases.join(", ")}`);
 		}
 
-		// Extract schema properties - fixed to use proper TypeScript type checking
-		if (command.inputSchema && "shape" in command.inputSchema._def) {
-			const schemaShape = command.inputSchema._def.shape as Record<
-				string,
-				z.ZodTypeAny
-			>;
-
+		// Extract schema properties, looking through optional/default/effects wrappers
+		const schemaShape = getObjectShape(command.inputSchema);
+		if (schemaShape) {
 			console.log("\nOptions:");
-
-			for (const [key, schema] of Object.entries(schemaShape)) {
-				// Safe access to schema properties with type checking
-				const isRequired = schema._def && !("isOptional" in schema._def);
-				const type = this.getSchemaTypeName(schema);
-				const description =
-					schema._def && "description" in schema._def
-						? (schema._def.description as string) || ""
-						: "";
-
-				console.log(`  --${key}${isRequired ? " (required)" : ""} <${type}>`);
-				if (description) {
-					console.log(`      ${description}`);
-				}
-			}
+			this.displayOptions(
+				schemaShape,
+				command.flags || {},
+				command.configDefaults || {},
+			);
 		}
 
 		// Show examples if available
@@ -1290,7 +8110,7 @@ export class Devtool<T = unknown> {
 			command.examples.forEach((example, index) => {
 				console.log(`  Example ${index + 1}:`);
 				console.log(
-					`    ${this.metadata.name} ${displayName} ${this.formatExampleArgs(example)}`,
+					`    ${this.metadata.name} ${displayName} ${formatExampleArgs(example, command)}`,
 				);
 			});
 		}
@@ -1320,90 +8140,118 @@ export class Devtool<T = unknown> {
 		}
 	}
 
-	private getSchemaTypeName(schema: z.ZodTypeAny): string {
-		if (!schema._def) {
-			return "unknown";
-		}
-
-		const def = schema._def;
+	/**
+	 * Prints one line per option. Nested object fields are listed with their
+	 * full dotted path, e.g. `--db.host`.
+	 */
+	private displayOptions(
+		shape: Record<string, z.ZodTypeAny>,
+		flags: Record<string, string>,
+		configDefaults: Record<string, string>,
+	): void {
+		for (const option of getOptionDocs(shape, flags, configDefaults)) {
+			const flagNames = option.short
+				? `-${option.short}, --${option.name}`
+				: `--${option.name}`;
 
-		if ("typeName" in def) {
-			const typeName = def.typeName as string;
-			if (typeName === "ZodString") {
-				return "string";
-			}
-			if (typeName === "ZodNumber") {
-				return "number";
-			}
-			if (typeName === "ZodBoolean") {
-				return "boolean";
-			}
-			if (typeName === "ZodArray") {
-				return "array";
-			}
-			if (typeName === "ZodObject") {
-				return "object";
-			}
-			if (typeName === "ZodEnum" && "values" in def) {
-				return (def.values as string[]).join("|");
+			console.log(
+				`  ${flagNames}${option.required ? " (required)" : ""} <${option.type}>`,
+			);
+			if (option.description) {
+				console.log(`      ${option.description}`);
 			}
-			if (typeName === "ZodOptional" && "innerType" in def) {
-				return this.getSchemaTypeName(def.innerType as z.ZodTypeAny);
+			if (option.configKey) {
+				console.log(`      Defaults to config key ${option.configKey}`);
 			}
 		}
-
-		return "unknown";
-	}
-
-	private formatExampleArgs(example: unknown): string {
-		if (!example || typeof example !== "object") {
-			return "";
-		}
-
-		return Object.entries(example as Record<string, unknown>)
-			.map(([key, value]) => {
-				if (value === true) {
-					return `--${key}`;
-				}
-				return `--${key}=${value}`;
-			})
-			.join(" ");
 	}
 }
 
-export class ZodCommand {
+export class ZodCommand<C = unknown> {
 	private logger: Logger;
-	private cli: CliBuilder;
+	private cli: CliBuilder<C>;
 
 	constructor(metadata?: Partial<CliMetadata>) {
 		this.logger = new ConsoleLogger();
-		this.cli = new CliBuilder(this.logger);
+		this.cli = new CliBuilder<C>(this.logger);
 
 		if (metadata) {
 			this.cli.setMetadata(metadata);
 		}
 	}
 
-	add(config: CommandConfig): ActionBuilder {
+	add(config: CommandConfig): ActionBuilder<unknown, unknown, C> {
 		return this.cli.add(config);
 	}
 
-	configure(options: {
-		schema: z.ZodType;
-		defaults?: Record<string, unknown>;
-		configFiles?: string[];
-		envPrefix?: string;
-	}): void {
+	/**
+	 * Load config validated by `options.schema`. Use the returned instance,
+	 * or `new ZodCommand<Config>()`, to type the `config` of command handlers.
+	 */
+	configure<T>(options: ConfigOptions<T>): ZodCommand<T> {
 		this.cli.configure(options);
+		return this as unknown as ZodCommand<T>;
 	}
 
-	run(): Promise<void> {
-		return this.cli.run();
+	run(options: CliOptions = {}): Promise<void> {
+		return this.cli.run(options);
 	}
 
 	setMetadata(metadata: Partial<CliMetadata>): void {
 		this.cli.setMetadata(metadata);
 	}
+
+	registerFormatter(formatter: OutputFormatter): void {
+		this.cli.registerFormatter(formatter);
+	}
+
+	generateDocs(formats?: DocsFormat[]): DocsFile[] {
+		return this.cli.generateDocs(formats);
+	}
+
+	toManifest(): CliManifest {
+		return this.cli.toManifest();
+	}
+
+	toRequestHandler(
+		options?: RequestHandlerOptions,
+	): (
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	) => Promise<void> {
+		return this.cli.toRequestHandler(options);
+	}
+
+	writeDocs(outDir: string, formats?: DocsFormat[]): string[] {
+		return this.cli.writeDocs(outDir, formats);
+	}
+
+	invoke<T, R>(
+		command: CommandDefinition<T, R>,
+		input: Partial<T>,
+		options?: InvokeOptions,
+	): Promise<CommandResult<R>>;
+	invoke(
+		commandPath: string,
+		input: unknown,
+		options?: InvokeOptions,
+	): Promise<CommandResult<unknown>>;
+	invoke(
+		commandOrPath: string | CommandDefinition<unknown, unknown>,
+		input: unknown,
+		options?: InvokeOptions,
+	): Promise<CommandResult<unknown>> {
+		return typeof commandOrPath === "string"
+			? this.cli.invoke(commandOrPath, input, options)
+			: this.cli.invoke(commandOrPath, input as Partial<unknown>, options);
+	}
+
+	execute(
+		argv: string[],
+		options: CliOptions = {},
+	): Promise<CommandResult<unknown>> {
+		return this.cli.execute(argv, options);
+	}
 }
 
 export default ZodCommand;
@@ -1509,9 +8357,6 @@ export function returnValidationErrors<T>(
 	_schema: z.ZodType<T>,
 	errors: ValidationErrors,
 ): never {
-	// Create a custom error that will be caught and processed by next-safe-action
-	const error = new Error("Validation failed") as ValidationError;
-	error.code = "VALIDATION_ERROR";
-	error.validationErrors = errors;
-	throw error;
+	// Thrown as a CommandValidationError so it exits with EXIT_CODES.usage
+	throw new CommandValidationError(errors);
 }
@@ -0,0 +1,309 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { type CliOptions, ZodCommand } from "../src/index";
+
+/**
+ * Runs `search` with `args` and returns the parsed input it received
+ */
+const parse = async (
+	define: (cli: ZodCommand) => void,
+	args: string[],
+	options?: CliOptions,
+) => {
+	const cli = new ZodCommand({ name: "app" });
+	define(cli);
+	const result = await cli.execute(["node", "app", ...args], options);
+	if (!result.ok) {
+		throw result.error;
+	}
+	return result.data;
+};
+
+const search = (cli: ZodCommand) =>
+	cli
+		.add({ command: "search" })
+		.input(
+			z.object({
+				query: z.string().optional(),
+				limit: z.number().default(10),
+				verbose: z.boolean().default(false),
+				since: z.date().optional(),
+				format: z.enum(["json", "text"]).optional(),
+			}),
+		)
+		.action(({ parsedInput }) => parsedInput);
+
+describe("argument coercion", () => {
+	it("converts flag values to the declared types", async () => {
+		expect(
+			await parse(search, [
+				"search",
+				"--limit",
+				"5",
+				"--since",
+				"2024-01-01",
+				"--format=json",
+			]),
+		).toEqual({
+			limit: 5,
+			verbose: false,
+			since: new Date("2024-01-01"),
+			format: "json",
+		});
+	});
+
+	it("reads booleans from --x, --no-x and --x=false", async () => {
+		expect(await parse(search, ["search", "--verbose"])).toMatchObject({
+			verbose: true,
+		});
+		expect(await parse(search, ["search", "--no-verbose"])).toMatchObject({
+			verbose: false,
+		});
+		expect(await parse(search, ["search", "--verbose=false"])).toMatchObject({
+			verbose: false,
+		});
+	});
+
+	it("reads all-digit dates as years, not epoch milliseconds", async () => {
+		expect(await parse(search, ["search", "--since", "2024"])).toMatchObject({
+			since: new Date("2024-01-01T00:00:00Z"),
+		});
+	});
+
+	it("converts bigint values", async () => {
+		const count = (cli: ZodCommand) =>
+			cli
+				.add({ command: "count" })
+				.input(z.object({ total: z.bigint() }))
+				.action(({ parsedInput }) => parsedInput);
+
+		expect(
+			await parse(count, ["count", "--total", "9007199254740993"]),
+		).toEqual({ total: BigInt("9007199254740993") });
+	});
+
+	it("leaves values that cannot be converted to validation", async () => {
+		const cli = new ZodCommand({ name: "app" });
+		search(cli);
+		const result = await cli.execute(["node", "app", "search", "--limit", "x"]);
+
+		expect(!result.ok && result.validationErrors).toHaveProperty("limit");
+	});
+});
+
+describe("short flags", () => {
+	const shortSearch = (cli: ZodCommand) =>
+		cli
+			.add({ command: "search" })
+			.input(
+				z.object({
+					limit: z.number().default(10),
+					verbose: z.boolean().default(false),
+					all: z.boolean().default(false),
+					query: z.string().optional(),
+				}),
+			)
+			.flags({ limit: "n", verbose: "v", all: "a" })
+			.action(({ parsedInput }) => parsedInput);
+
+	it("reads clustered boolean flags", async () => {
+		expect(await parse(shortSearch, ["search", "-va"])).toEqual({
+			limit: 10,
+			verbose: true,
+			all: true,
+		});
+	});
+
+	it("reads attached and separate values", async () => {
+		expect(await parse(shortSearch, ["search", "-n5"])).toMatchObject({
+			limit: 5,
+		});
+		expect(await parse(shortSearch, ["search", "-n", "5"])).toMatchObject({
+			limit: 5,
+		});
+		expect(await parse(shortSearch, ["search", "-vn5"])).toMatchObject({
+			verbose: true,
+			limit: 5,
+		});
+	});
+
+	it("stops parsing options after --", async () => {
+		expect(await parse(shortSearch, ["search", "--", "-v"])).toMatchObject({
+			verbose: false,
+		});
+	});
+});
+
+describe("global flags", () => {
+	const release = (cli: ZodCommand) =>
+		cli
+			.add({ command: "release" })
+			.input(
+				z.object({
+					version: z.number().optional(),
+					help: z.string().optional(),
+				}),
+			)
+			.action(({ parsedInput }) => parsedInput);
+
+	it("leaves --version and --help to commands that declare them", async () => {
+		expect(
+			await parse(release, ["release", "--version", "2", "--help", "docs"]),
+		).toEqual({ version: 2, help: "docs" });
+	});
+
+	it("keeps -v global", async () => {
+		expect(await parse(release, ["release", "-v"])).toEqual({
+			version: expect.any(String),
+		});
+	});
+});
+
+describe("positional arguments", () => {
+	const grep = (cli: ZodCommand) =>
+		cli
+			.add({ command: "grep" })
+			.input(
+				z.object({
+					pattern: z.string(),
+					files: z.array(z.string()).optional(),
+					count: z.boolean().default(false),
+				}),
+			)
+			.positional(["pattern", "files..."])
+			.action(({ parsedInput }) => parsedInput);
+
+	it("fills fields in order, collecting the rest into the last one", async () => {
+		expect(await parse(grep, ["grep", "TODO", "a.ts", "b.ts"])).toEqual({
+			pattern: "TODO",
+			files: ["a.ts", "b.ts"],
+			count: false,
+		});
+	});
+
+	it("accepts positionals between and after options", async () => {
+		expect(
+			await parse(grep, ["grep", "TODO", "--count", "a.ts"]),
+		).toMatchObject({ pattern: "TODO", files: ["a.ts"], count: true });
+	});
+
+	it("lets explicit flags win over positional values", async () => {
+		expect(
+			await parse(grep, ["grep", "a.ts", "--pattern", "FIXME"]),
+		).toMatchObject({ pattern: "FIXME" });
+	});
+
+	it("treats tokens after -- as positionals", async () => {
+		expect(await parse(grep, ["grep", "--", "--count", "-x"])).toEqual({
+			pattern: "--count",
+			files: ["-x"],
+			count: false,
+		});
+	});
+
+	it("matches the longest command path before positionals", async () => {
+		const users = (cli: ZodCommand) => {
+			cli
+				.add({ command: "user" })
+				.input(z.object({ name: z.string().optional() }))
+				.positional(["name"])
+				.action(() => "user");
+			cli
+				.add({ command: "user:create" })
+				.input(z.object({ name: z.string() }))
+				.positional(["name"])
+				.action(({ parsedInput }) => parsedInput);
+		};
+
+		expect(await parse(users, ["user", "create", "alice"])).toEqual({
+			name: "alice",
+		});
+	});
+});
+
+describe("array and nested options", () => {
+	const deploy = (cli: ZodCommand) =>
+		cli
+			.add({ command: "deploy" })
+			.input(
+				z.object({
+					tag: z.array(z.string()).default([]),
+					port: z.array(z.number()).default([]),
+					db: z
+						.object({
+							host: z.string().default("localhost"),
+							port: z.number().default(5432),
+						})
+						.default({}),
+				}),
+			)
+			.action(({ parsedInput }) => parsedInput);
+
+	it("accumulates repeated array flags", async () => {
+		expect(
+			await parse(deploy, [
+				"deploy",
+				"--tag",
+				"a",
+				"--tag=b",
+				"--port",
+				"80",
+				"--port",
+				"443",
+			]),
+		).toMatchObject({ tag: ["a", "b"], port: [80, 443] });
+	});
+
+	it("splits array values on arraySeparator", async () => {
+		expect(
+			await parse(deploy, ["deploy", "--tag", "a,b"], { arraySeparator: "," }),
+		).toMatchObject({ tag: ["a", "b"] });
+		expect(await parse(deploy, ["deploy", "--tag", "a,b"])).toMatchObject({
+			tag: ["a,b"],
+		});
+	});
+
+	it("expands dotted flags into nested objects", async () => {
+		expect(
+			await parse(deploy, [
+				"deploy",
+				"--db.host",
+				"db.local",
+				"--db.port=5433",
+			]),
+		).toEqual({ tag: [], port: [], db: { host: "db.local", port: 5433 } });
+	});
+});
+
+describe("recursive schemas", () => {
+	interface Category {
+		name: string;
+		parent?: Category;
+	}
+	const category: z.ZodType<Category> = z.lazy(() =>
+		z.object({ name: z.string(), parent: category.optional() }),
+	);
+	const tree = (cli: ZodCommand) =>
+		cli
+			.add({ command: "tree" })
+			.input(z.object({ root: category.optional(), depth: z.number() }))
+			.action(({ parsedInput }) => parsedInput);
+
+	it("parses flags without following lazy fields", async () => {
+		expect(await parse(tree, ["tree", "--depth", "2"])).toEqual({ depth: 2 });
+	});
+
+	it("documents lazy fields as single options", () => {
+		const cli = new ZodCommand({ name: "app" });
+		tree(cli);
+
+		const docs = cli
+			.generateDocs(["markdown"])
+			.map(({ content }) => content)
+			.join("\n");
+
+		expect(docs).toContain("--root");
+		expect(docs).not.toContain("--root.parent");
+	});
+});
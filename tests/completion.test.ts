@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { spawnSync } from "node:child_process";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CompletionShell,
+	ConsoleLogger,
+	Devtool,
+	fieldMeta,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli.setMetadata({ name: "my-cli", aliases: ["mc"] });
+	cli
+		.add({ command: "user:create" })
+		.input(
+			z.object({
+				name: z.string(),
+				role: z.enum(["admin", "member"]).default("member"),
+				active: z.boolean().default(true),
+				avatar: fieldMeta(z.string(), { path: true }).optional(),
+			}),
+		)
+		.flags({ role: "r" })
+		.action(() => undefined);
+	cli
+		.add({ command: "user:delete" })
+		.aliases(["rm"])
+		.input(z.object({ name: z.string() }))
+		.positional(["name"])
+		.complete({
+			name: ({ current }) =>
+				["ada", "grace", "linus"].filter((name) => name.startsWith(current)),
+		})
+		.action(() => undefined);
+	cli
+		.add({ command: "cache:store:clear" })
+		.input(z.object({}))
+		.action(() => undefined);
+	return cli;
+};
+
+describe("completion scripts", () => {
+	it.each([
+		["bash", "complete -o filenames -F _my_cli_completion my-cli mc"],
+		["zsh", "compdef _my_cli my-cli mc"],
+		["fish", "complete -c mc -f -a '(__my_cli_complete)'"],
+		["powershell", "-CommandName @('my-cli', 'mc')"],
+	])("registers %s completion for the CLI and its aliases", (shell, line) => {
+		const script = createCli().getCompletionScript(shell as CompletionShell);
+
+		expect(script).toContain(line);
+		expect(script).toContain("__complete --");
+	});
+
+	it("renders a bash script bash can parse", () => {
+		const { status, stderr } = spawnSync("bash", ["-n"], {
+			input: createCli().getCompletionScript("bash"),
+			encoding: "utf8",
+		});
+
+		expect(stderr).toBe("");
+		expect(status).toBe(0);
+	});
+
+	it("prints the script from the completion command", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		await new Devtool(createCli()).run(["node", "my-cli", "completion", "zsh"]);
+
+		expect(log).toHaveBeenCalledWith(createCli().getCompletionScript("zsh"));
+		log.mockRestore();
+	});
+});
+
+describe("completion candidates", () => {
+	const complete = (...words: string[]) => createCli().getCompletions(words);
+
+	it("completes commands and nested subcommand paths", async () => {
+		expect(await complete("us")).toEqual(["user"]);
+		expect(await complete("r")).toEqual(["rm"]);
+		expect(await complete("user", "")).toEqual(["create", "delete"]);
+		expect(await complete("cache", "store", "")).toEqual(["clear"]);
+	});
+
+	it("completes the flags of a command", async () => {
+		expect(await complete("user", "create", "--")).toEqual([
+			"--active",
+			"--avatar",
+			"--help",
+			"--name",
+			"--no-active",
+			"--no-interactive",
+			"--output",
+			"--role",
+		]);
+	});
+
+	it("completes enum values after long, short and --flag= forms", async () => {
+		expect(await complete("user", "create", "--role", "")).toEqual([
+			"admin",
+			"member",
+		]);
+		expect(await complete("user", "create", "-r", "a")).toEqual(["admin"]);
+		expect(await complete("user", "create", "--role=m")).toEqual([
+			"--role=member",
+		]);
+	});
+
+	it("asks the shell for file names for path fields", async () => {
+		expect(await complete("user", "create", "--avatar", "")).toEqual([
+			":files",
+		]);
+	});
+
+	it("uses the complete() callback of a field", async () => {
+		expect(await complete("user", "delete", "")).toEqual([
+			"ada",
+			"grace",
+			"linus",
+		]);
+		expect(await complete("rm", "g")).toEqual(["grace"]);
+	});
+
+	it("prints candidates from the __complete command", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		await new Devtool(createCli()).run([
+			"node",
+			"my-cli",
+			"__complete",
+			"--",
+			"user",
+			"create",
+			"--role",
+			"",
+		]);
+
+		expect(log).toHaveBeenCalledWith("admin\nmember");
+		log.mockRestore();
+	});
+});
@@ -0,0 +1,655 @@
+// @vitest-environment node
+import { spawnSync } from "node:child_process";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from "vitest";
+import { z } from "zod";
+import {
+	ConfigError,
+	type ConfigKey,
+	ConfigManager,
+	type ConfigOptions,
+	type ConfigWatchEvent,
+	type Logger,
+	REDACTED,
+	ZodCommand,
+	fieldMeta,
+} from "../src/index";
+
+const schema = z.object({
+	name: z.string().default("app"),
+	database: z
+		.object({
+			host: z.string().default("localhost"),
+			port: z.number().default(5432),
+			maxConnections: z.number().default(10),
+		})
+		.default({}),
+	tags: z.array(z.string()).default([]),
+	token: fieldMeta(z.string().optional(), { secret: true }),
+	region: fieldMeta(z.string().optional(), { env: "AWS_REGION" }),
+});
+
+type Config = z.infer<typeof schema>;
+
+const createLogger = () => {
+	const messages = { warn: [] as string[], error: [] as string[] };
+	const logger: Logger = {
+		info: () => undefined,
+		success: () => undefined,
+		debug: () => undefined,
+		warn: (message) => messages.warn.push(message),
+		error: (message) => messages.error.push(message),
+	};
+	return { logger, messages };
+};
+
+let dir: string;
+let savedEnv: NodeJS.ProcessEnv;
+
+const writeFile = (name: string, content: string) => {
+	const file = path.join(dir, name);
+	fs.writeFileSync(file, content);
+	return file;
+};
+
+const createManager = (
+	options: Partial<ConfigOptions<Config>> = {},
+	logger: Logger = createLogger().logger,
+) =>
+	new ConfigManager<Config>(
+		{ schema, envPrefix: "TEST_", ...options } as ConfigOptions<Config>,
+		logger,
+	);
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-command-config-"));
+	savedEnv = { ...process.env };
+});
+
+afterEach(() => {
+	// Restore in place: os.homedir() only sees changes to the real environment
+	for (const key of Object.keys(process.env)) {
+		if (!(key in savedEnv)) {
+			delete process.env[key];
+		}
+	}
+	Object.assign(process.env, savedEnv);
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("config layers", () => {
+	it("merges defaults, files, env and cli in order of precedence", async () => {
+		const file = writeFile(
+			"config.yaml",
+			"name: from-file\ndatabase:\n  host: db.local\n  port: 5433\n",
+		);
+		process.env.TEST_DATABASE_PORT = "5434";
+		const manager = createManager({
+			configFiles: [file],
+			defaults: { name: "from-defaults" },
+		});
+
+		const config = await manager.loadConfig({ database: { port: 5435 } });
+
+		expect(config.name).toBe("from-file");
+		expect(config.database).toEqual({
+			host: "db.local",
+			port: 5435,
+			maxConnections: 10,
+		});
+	});
+
+	it("records the layer, file and variable of every value", async () => {
+		const file = writeFile("config.json", '{"database":{"port":5433}}');
+		process.env.TEST_DATABASE_PORT = "5434";
+		const manager = createManager({ configFiles: [file] });
+		await manager.loadConfig();
+
+		expect(manager.getSource("database.port")).toEqual({
+			layer: "env",
+			file: undefined,
+			variable: "TEST_DATABASE_PORT",
+			value: 5434,
+		});
+		expect(
+			manager.explain("database").map(({ key, layer }) => [key, layer]),
+		).toEqual([
+			["database.port", "project"],
+			["database.port", "env"],
+		]);
+		expect(manager.explain("database.port")[0].file).toBe(file);
+		expect(manager.getSource("database.host")).toBeUndefined();
+	});
+
+	it("replaces the file layers with an explicit config path", async () => {
+		const file = writeFile("config.json", '{"name":"listed"}');
+		const explicit = writeFile("explicit.json", '{"name":"explicit"}');
+		const manager = createManager({ configFiles: [file] });
+
+		const config = await manager.loadConfig({}, { configPath: explicit });
+
+		expect(config.name).toBe("explicit");
+		expect(manager.getLoadedFiles()).toEqual([
+			{ layer: "project", file: explicit },
+		]);
+	});
+});
+
+describe("config discovery", () => {
+	/**
+	 * A repository in `dir` with the working directory two levels below it,
+	 * and a home directory without config files
+	 */
+	const setUpProject = () => {
+		const cwd = path.join(dir, "repo", "packages", "app");
+		fs.mkdirSync(cwd, { recursive: true });
+		fs.mkdirSync(path.join(dir, "repo", ".git"));
+		fs.mkdirSync(path.join(dir, "home"));
+		process.env.HOME = path.join(dir, "home");
+		process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+		vi.spyOn(process, "cwd").mockReturnValue(cwd);
+		return cwd;
+	};
+
+	const discover = () => createManager({ discover: true, name: "zctest" });
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("searches upward from the working directory to the repository root", async () => {
+		setUpProject();
+		const file = writeFile("repo/.zctestrc.yaml", "name: from-rc\n");
+		const manager = discover();
+
+		expect((await manager.loadConfig()).name).toBe("from-rc");
+		expect(manager.getLoadedFiles()).toEqual([{ layer: "project", file }]);
+	});
+
+	it("prefers the closest directory", async () => {
+		setUpProject();
+		writeFile("repo/.zctestrc.json", '{"name":"from-root"}');
+		writeFile("repo/packages/zctest.config.json", '{"name":"from-packages"}');
+
+		expect((await discover().loadConfig()).name).toBe("from-packages");
+	});
+
+	it("does not search above the repository root", async () => {
+		setUpProject();
+		writeFile(".zctestrc.json", '{"name":"outside"}');
+
+		expect((await discover().loadConfig()).name).toBe("app");
+	});
+
+	it("reads the package.json key named after the CLI", async () => {
+		setUpProject();
+		writeFile("repo/packages/app/package.json", '{"name":"pkg"}');
+		writeFile("repo/package.json", '{"zctest":{"name":"from-package"}}');
+
+		expect((await discover().loadConfig()).name).toBe("from-package");
+	});
+
+	it("reads user config from $XDG_CONFIG_HOME/<name>", async () => {
+		setUpProject();
+		fs.mkdirSync(path.join(dir, "xdg", "zctest"), { recursive: true });
+		const file = writeFile("xdg/zctest/config.yaml", "name: from-xdg\n");
+		const manager = discover();
+
+		expect((await manager.loadConfig()).name).toBe("from-xdg");
+		expect(manager.getLoadedFiles()).toEqual([{ layer: "user", file }]);
+	});
+
+	it("reads user config from ~/.<name>", async () => {
+		setUpProject();
+		writeFile("home/.zctest", "name: from-home\n");
+
+		expect((await discover().loadConfig()).name).toBe("from-home");
+	});
+
+	it("lets project config override user config", async () => {
+		setUpProject();
+		writeFile("home/.zctest", "name: from-home\ntags: [user]\n");
+		writeFile("repo/.zctestrc", '{"name":"from-project"}');
+		const manager = discover();
+
+		expect(await manager.loadConfig()).toMatchObject({
+			name: "from-project",
+			tags: ["user"],
+		});
+		expect(manager.getConfigFile()).toBe(path.join(dir, "repo/.zctestrc"));
+	});
+
+	it("uses configFiles before searching", async () => {
+		setUpProject();
+		writeFile("repo/.zctestrc.json", '{"name":"discovered"}');
+		const listed = writeFile("listed.json", '{"name":"listed"}');
+
+		expect(
+			(
+				await createManager({
+					discover: true,
+					name: "zctest",
+					configFiles: [listed],
+				}).loadConfig()
+			).name,
+		).toBe("listed");
+	});
+
+	it("does not search unless discover is set", async () => {
+		setUpProject();
+		writeFile("repo/.zctestrc.json", '{"name":"discovered"}');
+
+		expect((await createManager({ name: "zctest" }).loadConfig()).name).toBe(
+			"app",
+		);
+	});
+});
+
+describe("environment variables", () => {
+	it("maps nested fields and parses values by field type", async () => {
+		process.env.TEST_DATABASE_MAX_CONNECTIONS = "20";
+		process.env.TEST_TAGS = '["a","b"]';
+		process.env.AWS_REGION = "eu-west-1";
+		const config = await createManager().loadConfig();
+
+		expect(config.database.maxConnections).toBe(20);
+		expect(config.tags).toEqual(["a", "b"]);
+		expect(config.region).toBe("eu-west-1");
+	});
+
+	it("sets whole objects from JSON", async () => {
+		process.env.TEST_DATABASE = '{"host":"db.env","port":6000}';
+		const config = await createManager().loadConfig();
+
+		expect(config.database).toEqual({
+			host: "db.env",
+			port: 6000,
+			maxConnections: 10,
+		});
+	});
+
+	it("reads secret fields from the file named by <VARIABLE>_FILE", async () => {
+		process.env.TEST_TOKEN_FILE = writeFile("token", "s3cret\n");
+		const manager = createManager();
+		const config = await manager.loadConfig();
+
+		expect(config.token).toBe("s3cret");
+		expect(manager.getSource("token")?.variable).toBe("TEST_TOKEN_FILE");
+	});
+
+	it("ignores <VARIABLE>_FILE for fields that are not secret", async () => {
+		process.env.TEST_NAME_FILE = writeFile("name", "from-file");
+		const config = await createManager().loadConfig();
+
+		expect(config.name).toBe("app");
+	});
+
+	it("applies the validation policy to unreadable files and bad values", async () => {
+		process.env.TEST_TOKEN_FILE = path.join(dir, "missing");
+		process.env.TEST_DATABASE_PORT = "x";
+		const { logger, messages } = createLogger();
+
+		await expect(createManager().loadConfig()).rejects.toThrow(
+			"Cannot read TEST_TOKEN_FILE",
+		);
+		const config = await createManager(
+			{ validation: "warn" },
+			logger,
+		).loadConfig();
+
+		expect(config.token).toBeUndefined();
+		expect(config.database.port).toBe(5432);
+		expect(messages.warn[0]).toContain("TEST_TOKEN_FILE");
+	});
+
+	it("reads a secret from stdin once, for every load", () => {
+		const script = writeFile(
+			"stdin.mts",
+			`import { z } from "${pathToFileURL(createRequire(import.meta.url).resolve("zod"))}";
+import { ConfigManager, fieldMeta } from "${new URL("../src/index.ts", import.meta.url)}";
+
+const quiet = () => undefined;
+const manager = new ConfigManager(
+	{
+		schema: z.object({ token: fieldMeta(z.string(), { secret: true }) }),
+		envPrefix: "TEST_",
+	},
+	{ info: quiet, success: quiet, debug: quiet, warn: quiet, error: quiet },
+);
+const first = await manager.loadConfig();
+const second = await manager.loadConfig();
+console.log(JSON.stringify([first.token, second.token]));
+`,
+		);
+
+		process.env.TEST_TOKEN_FILE = "-";
+		const { stdout } = spawnSync(
+			process.execPath,
+			["--import", "tsx", script],
+			{
+				cwd: fileURLToPath(new URL("..", import.meta.url)),
+				input: "s3cret\n",
+				encoding: "utf-8",
+			},
+		);
+
+		expect(JSON.parse(stdout)).toEqual(["s3cret", "s3cret"]);
+	});
+
+	it("prefers the variable over its _FILE variant", async () => {
+		process.env.TEST_TOKEN = "direct";
+		process.env.TEST_TOKEN_FILE = writeFile("token", "from-file");
+		const config = await createManager().loadConfig();
+
+		expect(config.token).toBe("direct");
+	});
+});
+
+describe("validation policies", () => {
+	const invalidFile = () =>
+		writeFile("config.json", '{"name":"valid","database":{"port":"x"}}');
+
+	it("throws a ConfigError naming the key and file when strict", async () => {
+		const file = invalidFile();
+		const manager = createManager({ configFiles: [file] });
+
+		const error = await manager.loadConfig().catch((caught) => caught);
+
+		expect(error).toBeInstanceOf(ConfigError);
+		expect(error.message).toContain("database.port");
+		expect(error.file).toBe(file);
+	});
+
+	it("drops invalid values and warns when set to warn", async () => {
+		const { logger, messages } = createLogger();
+		const manager = createManager(
+			{ configFiles: [invalidFile()], validation: "warn" },
+			logger,
+		);
+
+		const config = await manager.loadConfig();
+
+		expect(config.name).toBe("valid");
+		expect(config.database.port).toBe(5432);
+		expect(messages.warn.join("\n")).toContain("database.port");
+	});
+
+	it("uses the defaults for the whole config when set to fallback", async () => {
+		const { logger, messages } = createLogger();
+		const manager = createManager(
+			{ configFiles: [invalidFile()], validation: "fallback" },
+			logger,
+		);
+
+		const config = await manager.loadConfig();
+
+		expect(config.name).toBe("app");
+		expect(config.database.port).toBe(5432);
+		expect(messages.error).toContain(
+			"Falling back to the default configuration",
+		);
+	});
+
+	it("warns about unreadable files unless strict", async () => {
+		const file = writeFile("config.json", "{");
+		const { logger, messages } = createLogger();
+
+		await expect(
+			createManager({ configFiles: [file] }).loadConfig(),
+		).rejects.toThrow(ConfigError);
+		const config = await createManager(
+			{ configFiles: [file], validation: "warn" },
+			logger,
+		).loadConfig();
+
+		expect(config.name).toBe("app");
+		expect(messages.warn[0]).toContain(file);
+	});
+});
+
+describe("config defaults", () => {
+	it("accepts the keys of the configured schema", () => {
+		expectTypeOf<ConfigKey<Config>>().toEqualTypeOf<
+			| "name"
+			| "database"
+			| "database.host"
+			| "database.port"
+			| "database.maxConnections"
+			| "tags"
+			| "token"
+			| "region"
+		>();
+		expectTypeOf<ConfigKey<unknown>>().toEqualTypeOf<string>();
+	});
+
+	it("checks keys against the configured schema", async () => {
+		const cli = new ZodCommand({ name: "app" }).configure({ schema });
+		const connect = cli
+			.add({ command: "connect" })
+			.input(z.object({ host: z.string(), port: z.number() }))
+			.configDefaults({ host: "database.host", port: "database.port" })
+			.action(({ parsedInput }) => parsedInput);
+		cli
+			.add({ command: "broken" })
+			// @ts-expect-error not a config key
+			.configDefaults({ port: "database.prot" });
+
+		expect(await cli.invoke(connect, {})).toEqual({
+			ok: true,
+			data: { host: "localhost", port: 5432 },
+		});
+	});
+});
+
+describe("--set overrides", () => {
+	it("parses key=value pairs by field type", () => {
+		expect(
+			createManager().parseOverrides([
+				"database.port=5433",
+				'tags=["a"]',
+				"name=x=y",
+			]),
+		).toEqual({ database: { port: 5433 }, tags: ["a"], name: "x=y" });
+	});
+
+	it("rejects unknown keys and values without =", () => {
+		const manager = createManager();
+
+		expect(() => manager.parseOverrides(["database.prot=1"])).toThrow(
+			'Did you mean "database.port"',
+		);
+		expect(() => manager.parseOverrides(["__proto__.polluted=1"])).toThrow(
+			"Unknown config key",
+		);
+		expect(() => manager.parseOverrides(["name"])).toThrow("key=value");
+	});
+
+	it("loads overrides into the cli layer", async () => {
+		const cli = new ZodCommand({ name: "app" }).configure({ schema });
+		cli
+			.add({ command: "show" })
+			.input(z.object({}))
+			.action(({ config }) => config);
+
+		const result = await cli.execute([
+			"node",
+			"app",
+			"show",
+			"--set",
+			"database.port=5433",
+			"--set=name=cli",
+		]);
+
+		expect(result.ok && result.data).toMatchObject({
+			name: "cli",
+			database: { port: 5433 },
+		});
+	});
+});
+
+describe("config commands", () => {
+	it("keeps user commands of the same name", async () => {
+		const cli = new ZodCommand({ name: "app" });
+		cli
+			.add({ command: "config" })
+			.input(z.object({}))
+			.action(() => "mine");
+		cli.configure({ schema });
+
+		const result = await cli.execute(["node", "app", "config"]);
+
+		expect(result.ok && result.data).toBe("mine");
+		expect(
+			(await cli.execute(["node", "app", "config", "get", "name"])).ok,
+		).toBe(true);
+	});
+});
+
+describe("secret redaction", () => {
+	const createCli = () => {
+		const file = writeFile(
+			"config.json",
+			'{"name":"app","database":{"host":"db.local"},"token":"file-token"}',
+		);
+		process.env.TEST_TOKEN = "env-token";
+		return new ZodCommand({ name: "app" }).configure({
+			schema,
+			envPrefix: "TEST_",
+			configFiles: [file],
+		});
+	};
+	const run = async (...args: string[]) => {
+		const result = await createCli().execute(["node", "app", ...args]);
+		if (!result.ok) {
+			throw result.error;
+		}
+		return result.data;
+	};
+
+	it("redacts secret values in config list", async () => {
+		const rows = (await run("config", "list")) as {
+			key: string;
+			value: unknown;
+		}[];
+
+		expect(rows.find((row) => row.key === "token")?.value).toBe(REDACTED);
+		expect(rows.find((row) => row.key === "name")?.value).toBe("app");
+		expect(JSON.stringify(rows)).not.toContain("-token");
+	});
+
+	it("redacts secret values in config get", async () => {
+		expect(await run("config", "get", "token")).toBe(REDACTED);
+		expect(await run("config", "get", "database.host")).toBe("db.local");
+	});
+
+	it("redacts every layer's value in config explain", async () => {
+		const rows = (await run("config", "explain", "token")) as {
+			layer: string;
+			value: unknown;
+			applied: boolean;
+		}[];
+
+		expect(
+			rows.map(({ layer, value, applied }) => [layer, value, applied]),
+		).toEqual([
+			["project", REDACTED, false],
+			["env", REDACTED, true],
+		]);
+	});
+
+	it("redacts secret values in parse errors", () => {
+		const manager = new ConfigManager(
+			{
+				schema: z.object({
+					keys: fieldMeta(z.array(z.string()), { secret: true }),
+				}),
+			},
+			createLogger().logger,
+		);
+
+		expect(() => manager.parseOverrides(["keys=hunter2"])).toThrow(
+			expect.objectContaining({
+				message: expect.not.stringContaining("hunter2"),
+			}),
+		);
+	});
+});
+
+describe("watching config", () => {
+	/**
+	 * Resolves with the next event `manager` emits, then stops watching
+	 */
+	const nextEvent = (manager: ConfigManager<Config>) =>
+		new Promise<ConfigWatchEvent<Config>>((resolve) => {
+			const stop = manager.watch((event) => {
+				stop();
+				resolve(event);
+			});
+		});
+
+	it("emits the changed keys after a file changes", async () => {
+		const file = writeFile("config.json", '{"database":{"port":5433}}');
+		const manager = createManager({ configFiles: [file] });
+		await manager.loadConfig();
+
+		const event = nextEvent(manager);
+		fs.writeFileSync(file, '{"database":{"port":5434},"name":"renamed"}');
+
+		expect(await event).toMatchObject({
+			type: "change",
+			config: { name: "renamed", database: { port: 5434 } },
+			previous: { name: "app", database: { port: 5433 } },
+			changes: [
+				{ key: "database.port", previous: 5433, current: 5434 },
+				{ key: "name", previous: "app", current: "renamed" },
+			],
+		});
+		expect(manager.getConfig().database.port).toBe(5434);
+	});
+
+	it("keeps the last valid config when a reload fails", async () => {
+		const file = writeFile("config.json", '{"database":{"port":5433}}');
+		const { logger, messages } = createLogger();
+		const manager = createManager({ configFiles: [file] }, logger);
+		await manager.loadConfig();
+
+		const event = nextEvent(manager);
+		fs.writeFileSync(file, '{"database":{"port":"x"}}');
+
+		const received = await event;
+		expect(received.type).toBe("error");
+		expect(received.type === "error" && received.error).toBeInstanceOf(
+			ConfigError,
+		);
+		expect(received.config.database.port).toBe(5433);
+		expect(manager.getConfig().database.port).toBe(5433);
+		expect(messages.warn).toContain("Keeping the last valid configuration");
+	});
+
+	it("redacts secrets in the changes", async () => {
+		const file = writeFile("config.json", '{"token":"old-token"}');
+		const manager = createManager({ configFiles: [file] });
+		await manager.loadConfig();
+
+		const event = nextEvent(manager);
+		fs.writeFileSync(file, '{"token":"new-token"}');
+
+		const received = await event;
+		expect(received.type === "change" && received.changes).toEqual([
+			{ key: "token", previous: REDACTED, current: REDACTED },
+		]);
+		expect(received.config.token).toBe("new-token");
+	});
+});
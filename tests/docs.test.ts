@@ -0,0 +1,131 @@
+// @vitest-environment node
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { CliBuilder, ConsoleLogger, DocsGenerator } from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli.setMetadata({
+		name: "my-cli",
+		version: "2.0.0",
+		description: "Manage users",
+		aliases: ["mc"],
+	});
+	const user = cli.add({
+		command: "user",
+		description: "User commands",
+		group: "Accounts",
+	});
+	user.input(z.object({})).action(() => undefined);
+	user
+		.sub({ command: "create", description: "Create a user | admin" })
+		.aliases(["new"])
+		.input(
+			z.object({
+				name: z.string().describe("User name"),
+				role: z.enum(["admin", "member"]).default("member"),
+				limit: z.number().optional(),
+			}),
+		)
+		.flags({ role: "r" })
+		.positional(["name"])
+		.configDefaults({ limit: "users.limit" })
+		.examples([{ name: "Ada Lovelace", role: "admin" }])
+		.action(() => undefined);
+	cli
+		.add({ command: "internal", description: "Not documented" })
+		.input(z.object({}))
+		.meta({ hidden: true })
+		.action(() => undefined);
+	return cli;
+};
+
+const generate = (formats?: ("markdown" | "man")[]) =>
+	Object.fromEntries(
+		new DocsGenerator(createCli())
+			.generate(formats)
+			.map((file) => [file.path, file.content]),
+	);
+
+describe("DocsGenerator", () => {
+	it("generates a markdown page per visible command", () => {
+		const files = generate();
+
+		expect(Object.keys(files)).toEqual([
+			"index.md",
+			"help.md",
+			"version.md",
+			"completion.md",
+			"docs.md",
+			"serve.md",
+			"user.md",
+			"user-create.md",
+		]);
+	});
+
+	it("lists commands by group in the markdown index", () => {
+		const index = generate()["index.md"];
+
+		expect(index).toContain("# my-cli\n\nManage users\n\n**Version:** 2.0.0");
+		expect(index).toContain("**Aliases:** mc");
+		expect(index).toContain(
+			"### Accounts\n\n| Command | Aliases | Description |\n| --- | --- | --- |\n| [`user`](user.md) |  | User commands |\n| [`user create`](user-create.md) | new | Create a user \\| admin |",
+		);
+	});
+
+	it("documents the usage, options and examples of a command", () => {
+		const page = generate()["user-create.md"];
+
+		expect(page).toContain("```\nmy-cli user create <name> [options]\n```");
+		expect(page).toContain("**Parent:** [`user`](user.md)");
+		expect(page).toContain("**Aliases:** new");
+		expect(page).toContain("**Group:** Accounts");
+		expect(page).toContain(
+			'| `--name` | `string` | yes |  | User name |\n| `-r, --role` | `admin\\|member` | no | `"member"` |  |\n| `--limit` | `number` | no | config `users.limit` |  |',
+		);
+		expect(page).toContain(
+			'```bash\nmy-cli user create "Ada Lovelace" --role=admin\n```',
+		);
+	});
+
+	it("links subcommands from their parent", () => {
+		expect(generate()["user.md"]).toContain(
+			"## Subcommands\n\n- [`user create`](user-create.md) - Create a user | admin",
+		);
+	});
+
+	it("generates escaped man pages", () => {
+		const files = generate(["man"]);
+		const page = files["man/my-cli-user-create.1"];
+
+		expect(Object.keys(files)).toContain("man/my-cli.1");
+		expect(page).toContain(
+			'.TH "MY\\-CLI\\-USER\\-CREATE" "1" "" "my\\-cli 2.0.0" "my\\-cli Manual"',
+		);
+		expect(page).toContain(
+			".SH NAME\nmy\\-cli\\-user\\-create \\- Create a user | admin",
+		);
+		expect(page).toContain(
+			'.TP\n\\fB\\-r, \\-\\-role\\fR \\fIadmin|member\\fR\nDefault: "member".',
+		);
+		expect(page).toContain(".SH ALIASES\nnew");
+	});
+
+	it("writes the files below the output directory", () => {
+		const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-command-docs-"));
+
+		try {
+			const written = new DocsGenerator(createCli()).write(outDir, ["man"]);
+
+			expect(written).toContain(path.join(outDir, "man", "my-cli.1"));
+			expect(
+				fs.readFileSync(path.join(outDir, "man", "my-cli-user.1"), "utf8"),
+			).toContain(".SH NAME");
+		} finally {
+			fs.rmSync(outDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CliOptions,
+	CommandError,
+	ConfigError,
+	ConsoleLogger,
+	Devtool,
+	EXIT_CODES,
+	UnknownCommandError,
+	UserAbortError,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli
+		.add({ command: "fail" })
+		.input(z.object({ with: z.enum(["error", "abort", "custom"]) }))
+		.action(({ parsedInput }) => {
+			switch ((parsedInput as { with: string }).with) {
+				case "abort":
+					throw new UserAbortError();
+				case "custom":
+					throw new CommandError("Not deployed", { exitCode: 3 });
+				default:
+					throw new Error("boom");
+			}
+		});
+	cli
+		.add({ command: "count" })
+		.input(z.object({ limit: z.number() }))
+		.action(() => "counted");
+	return cli;
+};
+
+const exitCodeOf = async (
+	args: string[],
+	cli = createCli(),
+	options?: CliOptions,
+) => {
+	process.exitCode = undefined;
+	await new Devtool(cli, options).run(["node", "app", ...args]);
+	return process.exitCode;
+};
+
+beforeEach(() => {
+	vi.spyOn(console, "log").mockImplementation(() => undefined);
+	vi.spyOn(console, "warn").mockImplementation(() => undefined);
+	vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	process.exitCode = undefined;
+});
+
+describe("error classes", () => {
+	it("default to the exit code of their kind", () => {
+		expect(new CommandError("failed").exitCode).toBe(EXIT_CODES.error);
+		expect(new UnknownCommandError("deplyo", []).exitCode).toBe(
+			EXIT_CODES.usage,
+		);
+		expect(new ConfigError("invalid").exitCode).toBe(EXIT_CODES.config);
+		expect(new UserAbortError().exitCode).toBe(EXIT_CODES.aborted);
+	});
+});
+
+describe("exit codes", () => {
+	it("sets 1 for errors thrown by handlers", async () => {
+		expect(await exitCodeOf(["fail", "--with", "error"])).toBe(1);
+	});
+
+	it("sets 2 for unknown commands, unknown options and invalid input", async () => {
+		expect(await exitCodeOf(["deplyo"])).toBe(2);
+		expect(
+			await exitCodeOf(["count", "--limit", "1", "--lmit", "2"], createCli(), {
+				unknownFlags: "error",
+			}),
+		).toBe(2);
+		expect(await exitCodeOf(["count", "--limit", "x"])).toBe(2);
+	});
+
+	it("sets 78 for invalid config", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-command-errors-"));
+		const file = path.join(dir, "config.json");
+		fs.writeFileSync(file, '{"port":"x"}');
+		const cli = createCli();
+		cli.configure({
+			schema: z.object({ port: z.number().default(80) }),
+			configFiles: [file],
+		});
+
+		try {
+			expect(await exitCodeOf(["count", "--limit", "1"], cli)).toBe(78);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("sets 130 when the user aborts", async () => {
+		expect(await exitCodeOf(["fail", "--with", "abort"])).toBe(130);
+	});
+
+	it("uses the exit code of a CommandError", async () => {
+		expect(await exitCodeOf(["fail", "--with", "custom"])).toBe(3);
+	});
+
+	it("leaves the exit code unset on success", async () => {
+		expect(await exitCodeOf(["count", "--limit", "1"])).toBeUndefined();
+	});
+});
@@ -0,0 +1,149 @@
+// @vitest-environment node
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	ConsoleLogger,
+	type RequestHandlerOptions,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli
+		.add({ command: "add" })
+		.input(z.object({ a: z.number(), b: z.number() }))
+		.action(({ parsedInput }) => {
+			const { a, b } = parsedInput as { a: number; b: number };
+			return a + b;
+		});
+	cli
+		.add({ command: "schedule" })
+		.input(z.object({ when: z.date(), size: z.bigint() }))
+		.action(({ parsedInput }) => {
+			const { when, size } = parsedInput as { when: Date; size: bigint };
+			return `${when.toISOString()} ${size + BigInt(1)}`;
+		});
+	cli
+		.add({ command: "noop" })
+		.input(z.object({}))
+		.action(() => undefined);
+	return cli;
+};
+
+let server: http.Server | undefined;
+
+const listen = async (options?: RequestHandlerOptions) => {
+	server = http.createServer(createCli().toRequestHandler(options));
+	await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+	return (server.address() as AddressInfo).port;
+};
+
+const request = (
+	port: number,
+	method: string,
+	path: string,
+	body?: string,
+): Promise<{ status?: number; body: string }> =>
+	new Promise((resolve, reject) => {
+		const req = http.request(
+			{ host: "127.0.0.1", port, method, path },
+			(res) => {
+				let data = "";
+				res.on("data", (chunk) => {
+					data += chunk;
+				});
+				res.on("end", () => resolve({ status: res.statusCode, body: data }));
+			},
+		);
+		req.on("error", reject);
+		req.end(body);
+	});
+
+afterEach(async () => {
+	await new Promise((resolve) => server?.close(resolve));
+	server = undefined;
+});
+
+describe("HttpCommandRouter", () => {
+	it("runs a command and returns its result", async () => {
+		const port = await listen();
+		const response = await request(port, "POST", "/add", '{"a":1,"b":2}');
+		expect(response).toEqual({ status: 200, body: "3" });
+	});
+
+	it("answers 204 when the command returns nothing", async () => {
+		const port = await listen();
+		const response = await request(port, "POST", "/noop");
+		expect(response.status).toBe(204);
+	});
+
+	it("answers 404 for unknown routes", async () => {
+		const port = await listen();
+		const response = await request(port, "POST", "/missing");
+		expect(response.status).toBe(404);
+	});
+
+	it("answers 405 for methods other than POST", async () => {
+		const port = await listen();
+		const response = await request(port, "GET", "/add");
+		expect(response.status).toBe(405);
+	});
+
+	it("answers 400 with field errors for invalid input", async () => {
+		const port = await listen();
+		const response = await request(port, "POST", "/add", '{"a":"x"}');
+		expect(response.status).toBe(400);
+		expect(Object.keys(JSON.parse(response.body).fieldErrors)).toEqual([
+			"a",
+			"b",
+		]);
+	});
+
+	it("converts date-time strings and int64 numbers as documented", async () => {
+		const port = await listen();
+		const response = await request(
+			port,
+			"POST",
+			"/schedule",
+			'{"when":"2024-01-01T00:00:00Z","size":5}',
+		);
+		expect(response).toEqual({
+			status: 200,
+			body: '"2024-01-01T00:00:00.000Z 6"',
+		});
+	});
+
+	it("answers 400 for a body that is not JSON", async () => {
+		const port = await listen();
+		const response = await request(port, "POST", "/add", "{");
+		expect(response.status).toBe(400);
+	});
+
+	it("answers 400 for a malformed URL instead of crashing", async () => {
+		const port = await listen();
+		const response = await request(port, "GET", "//");
+		expect(response.status).toBe(400);
+		expect((await request(port, "POST", "/add", '{"a":1,"b":1}')).body).toBe(
+			"2",
+		);
+	});
+
+	it("answers 500 when the context option throws", async () => {
+		const port = await listen({
+			context: () => {
+				throw new Error("no session");
+			},
+		});
+		const response = await request(port, "POST", "/add", '{"a":1,"b":2}');
+		expect(response.status).toBe(500);
+		expect(JSON.parse(response.body).error).toBe("no session");
+	});
+
+	it("serves the OpenAPI document", async () => {
+		const port = await listen();
+		const response = await request(port, "GET", "/openapi.json");
+		expect(JSON.parse(response.body).paths).toHaveProperty("/add");
+	});
+});
@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CommandError,
+	CommandValidationError,
+	UnknownCommandError,
+	UnknownOptionError,
+	ZodCommand,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new ZodCommand({ name: "app" });
+	const search = cli
+		.add({ command: "search" })
+		.input(
+			z.object({ query: z.string().min(1), limit: z.number().default(10) }),
+		)
+		.output(z.object({ query: z.string(), limit: z.number() }))
+		.configDefaults({ limit: "search.limit" })
+		.action(
+			({ parsedInput }) => parsedInput as { query: string; limit: number },
+		);
+	const broken = cli
+		.add({ command: "broken" })
+		.input(z.object({}))
+		.output(z.object({ count: z.number() }))
+		.action(() => ({ count: "many" }) as unknown as { count: number });
+	return { cli, search, broken };
+};
+
+describe("invoke", () => {
+	it("returns the typed result of the handler", async () => {
+		const { cli, search } = createCli();
+
+		const result = await cli.invoke(search, { query: "zod" });
+
+		expect(result).toEqual({ ok: true, data: { query: "zod", limit: 10 } });
+		if (result.ok) {
+			expectTypeOf(result.data).toEqualTypeOf<{
+				query: string;
+				limit: number;
+			}>();
+		}
+	});
+
+	it("finds commands by path and applies config defaults", async () => {
+		const { cli } = createCli();
+
+		expect(
+			await cli.invoke(
+				"search",
+				{ query: "zod" },
+				{ config: { search: { limit: 5 } } },
+			),
+		).toEqual({ ok: true, data: { query: "zod", limit: 5 } });
+	});
+
+	it("returns validation errors for invalid input", async () => {
+		const { cli, search } = createCli();
+
+		const result = await cli.invoke(search, { query: "" });
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error).toBeInstanceOf(CommandValidationError);
+			expect(result.validationErrors?.query).toEqual({
+				_errors: ["String must contain at least 1 character(s)"],
+			});
+		}
+	});
+
+	it("returns an error for unknown commands and invalid output", async () => {
+		const { cli, broken } = createCli();
+
+		const unknown = await cli.invoke("serch", {});
+		const invalid = await cli.invoke(broken, {});
+
+		expect(!unknown.ok && unknown.error).toBeInstanceOf(UnknownCommandError);
+		expect(!invalid.ok && invalid.error).toBeInstanceOf(CommandError);
+		expect(!invalid.ok && invalid.error.message).toContain(
+			"Invalid command output: count",
+		);
+	});
+
+	it("calls the validation hooks around input validation", async () => {
+		const { cli, search } = createCli();
+		const beforeValidation = vi.fn();
+		const afterValidation = vi.fn();
+
+		await cli.invoke(
+			search,
+			{ query: "zod" },
+			{ config: { search: { limit: 5 } }, beforeValidation, afterValidation },
+		);
+
+		expect(beforeValidation).toHaveBeenCalledWith({ query: "zod", limit: 5 });
+		expect(afterValidation).toHaveBeenCalledWith({ query: "zod", limit: 5 });
+	});
+
+	it("skips afterValidation when the input is invalid", async () => {
+		const { cli, search } = createCli();
+		const beforeValidation = vi.fn();
+		const afterValidation = vi.fn();
+
+		await cli.invoke(
+			search,
+			{ query: "" },
+			{ beforeValidation, afterValidation },
+		);
+
+		expect(beforeValidation).toHaveBeenCalledWith({ query: "" });
+		expect(afterValidation).not.toHaveBeenCalled();
+	});
+
+	it("returns errors thrown by the hooks", async () => {
+		const { cli, search } = createCli();
+
+		const result = await cli.invoke(
+			search,
+			{ query: "zod" },
+			{
+				afterValidation: () => {
+					throw new CommandError("Not allowed");
+				},
+			},
+		);
+
+		expect(!result.ok && result.error.message).toBe("Not allowed");
+	});
+});
+
+describe("execute", () => {
+	it("returns the result instead of printing it", async () => {
+		const { cli } = createCli();
+
+		expect(
+			await cli.execute(["node", "app", "search", "--query", "zod"]),
+		).toEqual({ ok: true, data: { query: "zod", limit: 10 } });
+	});
+
+	it("returns unknown options as errors", async () => {
+		const { cli } = createCli();
+
+		const result = await cli.execute(
+			["node", "app", "search", "--query", "zod", "--limt", "5"],
+			{ unknownFlags: "error" },
+		);
+
+		expect(!result.ok && result.error).toBeInstanceOf(UnknownOptionError);
+	});
+});
@@ -0,0 +1,153 @@
+// @vitest-environment node
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	ConfigError,
+	DotenvConfigLoader,
+	IniConfigLoader,
+	TomlConfigLoader,
+} from "../src/index";
+
+let dir: string;
+
+const writeFile = (name: string, content: string) => {
+	const file = path.join(dir, name);
+	fs.writeFileSync(file, content);
+	return file;
+};
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-command-loaders-"));
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("TomlConfigLoader", () => {
+	const load = (content: string) =>
+		new TomlConfigLoader().load(writeFile("config.toml", content));
+
+	it("loads tables, arrays and inline tables", async () => {
+		expect(
+			await load(
+				[
+					'name = "app"',
+					"[database]",
+					'host = "db.local"',
+					"port = 5432",
+					"replicas = [1, 2]",
+					"[[servers]]",
+					'name = "a"',
+					"[[servers]]",
+					'name = "b"',
+					"[cache]",
+					"redis = { host = 'localhost', port = 6379 }",
+				].join("\n"),
+			),
+		).toEqual({
+			name: "app",
+			database: { host: "db.local", port: 5432, replicas: [1, 2] },
+			servers: [{ name: "a" }, { name: "b" }],
+			cache: { redis: { host: "localhost", port: 6379 } },
+		});
+	});
+
+	it("loads offset date-times as dates and local ones as strings", async () => {
+		const config = await load(
+			"released = 1979-05-27T07:32:00Z\nday = 1979-05-27\n",
+		);
+
+		expect(config.released).toEqual(new Date("1979-05-27T07:32:00Z"));
+		expect(config.released?.constructor).toBe(Date);
+		expect(config.day).toBe("1979-05-27");
+	});
+
+	it("rejects redefined tables with their location", async () => {
+		const error = await load("[a]\nx = 1\n[a.b]\ny = 2\n[a]\nz = 3\n").catch(
+			(caught) => caught,
+		);
+
+		expect(error).toBeInstanceOf(ConfigError);
+		expect(error).toMatchObject({ line: 5, column: 2 });
+		expect(error.message).toContain("config.toml:5:2");
+	});
+
+	it("rejects redefined keys", async () => {
+		await expect(load("x = 1\nx = 2\n")).rejects.toThrow(ConfigError);
+		await expect(load("a.b = 1\n[a]\nb = 2\n")).rejects.toThrow(ConfigError);
+	});
+
+	it("rejects invalid values", async () => {
+		await expect(load('x = "unterminated\n')).rejects.toThrow(ConfigError);
+		await expect(load("x = 01\n")).rejects.toThrow(ConfigError);
+	});
+});
+
+describe("IniConfigLoader", () => {
+	const load = (content: string) =>
+		new IniConfigLoader().load(writeFile("config.ini", content));
+
+	it("nests sections and dotted keys and collects arrays", async () => {
+		expect(
+			await load(
+				[
+					"; comment",
+					"name = app",
+					"[database]",
+					'host = "db.local"',
+					"pool.max = 10",
+					"tags[] = a",
+					"tags[] = b",
+				].join("\n"),
+			),
+		).toEqual({
+			name: "app",
+			database: { host: "db.local", pool: { max: "10" }, tags: ["a", "b"] },
+		});
+	});
+
+	it("rejects lines that are not key = value with their location", async () => {
+		const error = await load("[a]\nx = 1\nnot a pair\n").catch(
+			(caught) => caught,
+		);
+
+		expect(error).toBeInstanceOf(ConfigError);
+		expect(error).toMatchObject({ line: 3, column: 1 });
+	});
+});
+
+describe("DotenvConfigLoader", () => {
+	it("loads variables with comments, export and quotes", async () => {
+		const loader = new DotenvConfigLoader();
+		const file = writeFile(
+			".env",
+			[
+				"# comment",
+				"DATABASE_HOST=db.local",
+				"export DATABASE_PORT=5433",
+				'GREETING="hello # not a comment"',
+				"SINGLE='x y'",
+			].join("\n"),
+		);
+
+		expect(Object.entries(await loader.load(file))).toEqual([
+			["DATABASE_HOST", "db.local"],
+			["DATABASE_PORT", "5433"],
+			["GREETING", "hello # not a comment"],
+			["SINGLE", "x y"],
+		]);
+	});
+
+	it("matches .env, .env.* and *.env files", () => {
+		const loader = new DotenvConfigLoader();
+
+		expect(
+			[".env", ".env.local", "app.env", "env.json"].map((file) =>
+				loader.canLoad(file),
+			),
+		).toEqual([true, true, true, false]);
+	});
+});
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { CliBuilder, ConsoleLogger, Devtool } from "../src/index";
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("ConsoleLogger", () => {
+	it("writes info, success and debug to stdout and problems to stderr", () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+		const error = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const logger = new ConsoleLogger(true);
+
+		logger.info("info");
+		logger.success("success");
+		logger.debug("debug");
+		logger.warn("warn");
+		logger.error("error");
+
+		expect(log.mock.calls.map(([, message]) => message)).toEqual([
+			"info",
+			"success",
+			"debug",
+		]);
+		expect(warn.mock.calls.map(([, message]) => message)).toEqual(["warn"]);
+		expect(error.mock.calls.map(([, message]) => message)).toEqual(["error"]);
+	});
+
+	it("skips debug messages unless enabled", () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		new ConsoleLogger().debug("debug");
+
+		expect(log).not.toHaveBeenCalled();
+	});
+
+	it("writes everything to stderr after logToStderr", () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+		const error = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+		const logger = new ConsoleLogger();
+
+		logger.logToStderr();
+		logger.info("info");
+		logger.success("success");
+
+		expect(log).not.toHaveBeenCalled();
+		expect(error.mock.calls.map(([, message]) => message)).toEqual([
+			"info",
+			"success",
+		]);
+	});
+});
+
+describe("machine-readable output", () => {
+	const run = (args: string[]) => {
+		const cli = new CliBuilder(new ConsoleLogger());
+		cli
+			.add({ command: "status" })
+			.input(z.object({}))
+			.action(({ context }) => {
+				context.logger.info("checking");
+				return { ok: true };
+			});
+		cli
+			.add({ command: "report" })
+			.input(z.object({}))
+			.meta({ outputFormat: "json" })
+			.action(({ context }) => {
+				context.logger.info("checking");
+				return { ok: true };
+			});
+		return new Devtool(cli).run(["node", "app", ...args]);
+	};
+
+	it.each([
+		["--output json", ["status", "--output", "json"]],
+		["--output=yaml", ["status", "--output=yaml"]],
+		["an outputFormat of json", ["report"]],
+	])("keeps logs off stdout with %s", async (_, args) => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+		const error = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+
+		await run(args);
+
+		expect(log.mock.calls.flat().join("\n")).not.toContain("checking");
+		expect(error.mock.calls.flat().join("\n")).toContain("checking");
+	});
+
+	it("logs to stdout for text output", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		await run(["status"]);
+
+		expect(log.mock.calls.flat().join("\n")).toContain("checking");
+	});
+});
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	type UnsupportedSchemaNode,
+	ZodCommand,
+	zodToJsonSchema,
+} from "../src/index";
+
+const convert = (schema: z.ZodTypeAny) => {
+	const unsupported: UnsupportedSchemaNode[] = [];
+	return { json: zodToJsonSchema(schema, unsupported), unsupported };
+};
+
+describe("zodToJsonSchema", () => {
+	it("converts objects, optional fields and defaults", () => {
+		const { json, unsupported } = convert(
+			z.object({
+				name: z.string().min(1).describe("User name"),
+				age: z.number().int().default(18),
+				email: z.string().email().optional(),
+			}),
+		);
+
+		expect(json).toEqual({
+			type: "object",
+			properties: {
+				name: { type: "string", minLength: 1, description: "User name" },
+				age: { type: "integer", default: 18 },
+				email: { type: "string", format: "email" },
+			},
+			required: ["name"],
+		});
+		expect(unsupported).toEqual([]);
+	});
+
+	it("maps startsWith, endsWith and includes to patterns", () => {
+		const { json, unsupported } = convert(
+			z.string().startsWith("a.").endsWith("$z").includes("+"),
+		);
+
+		expect(json).toEqual({
+			type: "string",
+			pattern: "^a\\.",
+			allOf: [{ pattern: "\\$z$" }, { pattern: "\\+" }],
+		});
+		expect(unsupported).toEqual([]);
+	});
+
+	it("maps ip versions to formats", () => {
+		expect(convert(z.string().ip({ version: "v4" })).json.format).toBe("ipv4");
+		expect(convert(z.string().ip()).unsupported).toEqual([
+			{ path: "/", type: "ZodString", kind: "ip" },
+		]);
+	});
+
+	it("reports string and number checks it cannot express", () => {
+		const { json, unsupported } = convert(
+			z.object({
+				id: z.string().cuid().trim().toLowerCase(),
+				ratio: z.number().finite(),
+			}),
+		);
+
+		expect(json.properties).toEqual({
+			id: { type: "string" },
+			ratio: { type: "number" },
+		});
+		expect(unsupported).toEqual([
+			{ path: "/properties/id", type: "ZodString", kind: "cuid" },
+			{ path: "/properties/id", type: "ZodString", kind: "trim" },
+			{ path: "/properties/id", type: "ZodString", kind: "toLowerCase" },
+			{ path: "/properties/ratio", type: "ZodNumber", kind: "finite" },
+		]);
+	});
+
+	it("reports refinements and transforms", () => {
+		const { json, unsupported } = convert(
+			z.object({
+				even: z.number().refine((value) => value % 2 === 0),
+				checked: z.string().superRefine(() => undefined),
+				length: z.string().transform((value) => value.length),
+			}),
+		);
+
+		expect(json.properties).toEqual({
+			even: { type: "number" },
+			checked: { type: "string" },
+			length: { type: "string" },
+		});
+		expect(unsupported).toEqual([
+			{ path: "/properties/even", type: "ZodEffects", kind: "refinement" },
+			{ path: "/properties/checked", type: "ZodEffects", kind: "refinement" },
+			{ path: "/properties/length", type: "ZodEffects", kind: "transform" },
+		]);
+	});
+
+	it("replaces constructs with no equivalent", () => {
+		const { json, unsupported } = convert(z.object({ callback: z.function() }));
+
+		expect(json.properties).toEqual({
+			callback: { "x-unsupported": "ZodFunction" },
+		});
+		expect(unsupported).toEqual([
+			{ path: "/properties/callback", type: "ZodFunction" },
+		]);
+	});
+});
+
+describe("--manifest", () => {
+	const createCli = () => {
+		const cli = new ZodCommand({ name: "app", version: "1.0.0" });
+		cli
+			.add({ command: "build" })
+			.input(z.object({ manifest: z.string().optional() }))
+			.action(({ parsedInput }) => parsedInput);
+		cli
+			.add({ command: "clean" })
+			.input(z.object({}))
+			.action(() => "cleaned");
+		return cli;
+	};
+
+	it("prints the manifest", async () => {
+		const result = await createCli().execute(["node", "app", "--manifest"]);
+
+		expect(result.ok && result.data).toMatchObject({
+			manifestVersion: 1,
+			metadata: { name: "app" },
+		});
+	});
+
+	it("is global for commands without a manifest field", async () => {
+		const result = await createCli().execute([
+			"node",
+			"app",
+			"clean",
+			"--manifest",
+		]);
+
+		expect(result.ok && result.data).toHaveProperty("manifestVersion");
+	});
+
+	it("is left to commands that declare a manifest field", async () => {
+		const result = await createCli().execute([
+			"node",
+			"app",
+			"build",
+			"--manifest",
+			"out.json",
+		]);
+
+		expect(result.ok && result.data).toEqual({ manifest: "out.json" });
+	});
+});
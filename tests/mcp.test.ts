@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	ConsoleLogger,
+	JSON_RPC_ERRORS,
+	McpServer,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli.setMetadata({ name: "app", version: "1.2.3" });
+	cli
+		.add({ command: "user:create", description: "Create a user" })
+		.input(z.object({ name: z.string().min(1) }))
+		.output(z.object({ id: z.number(), name: z.string() }))
+		.action(({ parsedInput }) => {
+			const { name } = parsedInput as { name: string };
+			return { id: 1, name };
+		});
+	cli
+		.add({ command: "greet", description: "Greet someone" })
+		.input(z.object({ name: z.string() }))
+		.action(
+			({ parsedInput }) => `Hello ${(parsedInput as { name: string }).name}`,
+		);
+	cli
+		.add({ command: "schedule", description: "Schedule a job" })
+		.input(z.object({ when: z.date(), size: z.bigint() }))
+		.action(({ parsedInput }) => {
+			const { when, size } = parsedInput as { when: Date; size: bigint };
+			return `${when.toISOString()} ${size + BigInt(1)}`;
+		});
+	cli
+		.add({ command: "secret", description: "Not served" })
+		.input(z.object({}))
+		.meta({ serve: false })
+		.action(() => "hidden");
+	return cli;
+};
+
+/**
+ * Writes `lines` to a server listening on PassThrough streams and returns the
+ * parsed responses once the input ends
+ */
+const exchange = async (lines: string[]) => {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	let written = "";
+	output.on("data", (chunk) => {
+		written += chunk;
+	});
+
+	const listening = new McpServer(createCli()).listen(input, output);
+	input.end(lines.map((line) => `${line}\n`).join(""));
+	await listening;
+
+	return written
+		.split("\n")
+		.filter(Boolean)
+		.map((line) => JSON.parse(line));
+};
+
+const call = (id: number, method: string, params?: unknown) =>
+	JSON.stringify({ jsonrpc: "2.0", id, method, params });
+
+describe("McpServer", () => {
+	it("answers initialize with the negotiated protocol version", async () => {
+		const [response] = await exchange([
+			call(1, "initialize", { protocolVersion: "2025-03-26" }),
+		]);
+
+		expect(response).toEqual({
+			jsonrpc: "2.0",
+			id: 1,
+			result: {
+				protocolVersion: "2025-03-26",
+				capabilities: { tools: {} },
+				serverInfo: { name: "app", version: "1.2.3" },
+			},
+		});
+	});
+
+	it("lists served commands as tools", async () => {
+		const [response] = await exchange([call(1, "tools/list")]);
+		const tools = response.result.tools;
+
+		expect(tools.map((tool: { name: string }) => tool.name)).toEqual([
+			"user_create",
+			"greet",
+			"schedule",
+		]);
+		expect(tools[0]).toMatchObject({
+			description: "Create a user",
+			inputSchema: { type: "object", required: ["name"] },
+			outputSchema: { type: "object" },
+		});
+	});
+
+	it("calls tools and returns text and structured content", async () => {
+		const [created, greeted] = await exchange([
+			call(1, "tools/call", {
+				name: "user_create",
+				arguments: { name: "Ada" },
+			}),
+			call(2, "tools/call", { name: "greet", arguments: { name: "Ada" } }),
+		]);
+
+		expect(created.result).toEqual({
+			content: [
+				{ type: "text", text: JSON.stringify({ id: 1, name: "Ada" }, null, 2) },
+			],
+			structuredContent: { id: 1, name: "Ada" },
+		});
+		expect(greeted.result).toEqual({
+			content: [{ type: "text", text: "Hello Ada" }],
+		});
+	});
+
+	it("converts date-time strings and int64 numbers as listed", async () => {
+		const [response] = await exchange([
+			call(1, "tools/call", {
+				name: "schedule",
+				arguments: { when: "2024-01-01T00:00:00Z", size: 5 },
+			}),
+		]);
+
+		expect(response.result).toEqual({
+			content: [{ type: "text", text: "2024-01-01T00:00:00.000Z 6" }],
+		});
+	});
+
+	it("reports validation failures as tool errors", async () => {
+		const [response] = await exchange([
+			call(1, "tools/call", { name: "user_create", arguments: { name: "" } }),
+		]);
+
+		expect(response.result.isError).toBe(true);
+		expect(response.result.content[0].text).toContain("name");
+	});
+
+	it("answers JSON-RPC errors", async () => {
+		const responses = await exchange([
+			"{",
+			call(1, "tools/call", { name: "secret" }),
+			call(2, "unknown/method"),
+			JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+		]);
+
+		// Responses are written as calls finish, so they can arrive out of order
+		expect(
+			responses
+				.map((response) => [response.id, response.error.code])
+				.sort(([a], [b]) => (a ?? 0) - (b ?? 0)),
+		).toEqual([
+			[null, JSON_RPC_ERRORS.parseError],
+			[1, JSON_RPC_ERRORS.invalidParams],
+			[2, JSON_RPC_ERRORS.methodNotFound],
+		]);
+	});
+});
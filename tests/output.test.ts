@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CommandDefinition,
+	ConsoleLogger,
+	Devtool,
+	JsonOutputFormatter,
+	TableOutputFormatter,
+	TextOutputFormatter,
+	YamlOutputFormatter,
+} from "../src/index";
+
+const context = (metadata?: Record<string, unknown>) => ({
+	command: {
+		name: "users",
+		description: "",
+		inputSchema: z.object({}),
+		handler: () => undefined,
+		metadata,
+	} as CommandDefinition<unknown, unknown>,
+});
+
+const users = [
+	{ id: 1, name: "Ada" },
+	{ id: 2, name: "Grace", admin: true },
+];
+
+describe("output formatters", () => {
+	it("renders json", () => {
+		expect(
+			new JsonOutputFormatter().format({
+				count: BigInt(2),
+				at: new Date(0),
+				tags: new Set(["a"]),
+			}),
+		).toBe(
+			JSON.stringify(
+				{ count: "2", at: "1970-01-01T00:00:00.000Z", tags: ["a"] },
+				null,
+				2,
+			),
+		);
+	});
+
+	it("renders yaml", () => {
+		expect(new YamlOutputFormatter().format(users)).toBe(
+			"- id: 1\n  name: Ada\n- id: 2\n  name: Grace\n  admin: true",
+		);
+	});
+
+	it("renders arrays of objects as tables", () => {
+		expect(new TableOutputFormatter().format(users)).toBe(
+			[
+				"id  name   admin",
+				"--  -----  -----",
+				"1   Ada",
+				"2   Grace  true",
+			].join("\n"),
+		);
+	});
+
+	it("renders objects as key and value tables", () => {
+		expect(
+			new TableOutputFormatter().format({ name: "Ada", tags: ["a"] }),
+		).toBe(
+			["key   value", "----  -----", "name  Ada", 'tags  ["a"]'].join("\n"),
+		);
+	});
+
+	it("renders text", () => {
+		const formatter = new TextOutputFormatter();
+
+		expect(formatter.format("done", context())).toBe("done");
+		expect(formatter.format(["a", "b"], context())).toBe("a\nb");
+		expect(formatter.format({ name: "Ada" }, context())).toBe("name: Ada");
+		expect(formatter.format(undefined, context())).toBe("");
+	});
+
+	it("uses the renderText of the command", () => {
+		expect(
+			new TextOutputFormatter().format(
+				{ message: "Hello" },
+				context({
+					renderText: (result: { message: string }) => `${result.message}!`,
+				}),
+			),
+		).toBe("Hello!");
+	});
+});
+
+describe("--output", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const createCli = () => {
+		const cli = new CliBuilder(new ConsoleLogger());
+		cli
+			.add({ command: "greet" })
+			.input(z.object({ name: z.string() }))
+			.meta({
+				renderText: (result: { message: string }) => result.message,
+			})
+			.action(({ parsedInput }) => ({
+				message: `Hello, ${(parsedInput as { name: string }).name}`,
+			}));
+		return cli;
+	};
+
+	it("prints the result in the selected format", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		await new Devtool(createCli()).run([
+			"node",
+			"app",
+			"greet",
+			"--name",
+			"Ada",
+		]);
+		await new Devtool(createCli()).run([
+			"node",
+			"app",
+			"greet",
+			"--name",
+			"Ada",
+			"--output",
+			"json",
+		]);
+
+		expect(log.mock.calls.map(([line]) => line)).toEqual([
+			"Hello, Ada",
+			JSON.stringify({ message: "Hello, Ada" }, null, 2),
+		]);
+	});
+
+	it("leaves renderText out of the manifest", () => {
+		const [command] = createCli()
+			.toManifest()
+			.commands.filter(({ name }) => name === "greet");
+
+		expect(command.metadata).toEqual({});
+	});
+});
@@ -0,0 +1,457 @@
+// @vitest-environment node
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import zlib from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CliOptions,
+	ConsoleLogger,
+	Devtool,
+	ZodCommand,
+} from "../src/index";
+
+let dir: string;
+let savedEnv: NodeJS.ProcessEnv;
+
+const zodUrl = pathToFileURL(createRequire(import.meta.url).resolve("zod"));
+
+const pluginSource = `import { z } from "${zodUrl}";
+
+export default {
+	async initialize(cli) {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		cli
+			.add({ command: "hello", description: "Say hello" })
+			.input(z.object({}))
+			.action(() => "hi");
+	},
+};
+`;
+
+/**
+ * One ustar entry: a header followed by the content padded to 512 bytes
+ */
+const tarEntry = (name: string, content = "", type = "0") => {
+	const header = Buffer.alloc(512);
+	const body = Buffer.from(content);
+	header.write(name, 0);
+	header.write(body.length.toString(8).padStart(11, "0"), 124);
+	header.write(type, 156);
+	header.write("ustar", 257);
+	return Buffer.concat([
+		header,
+		body,
+		Buffer.alloc(Math.ceil(body.length / 512) * 512 - body.length),
+	]);
+};
+
+const writeTarball = (name: string, entries: Buffer[]) => {
+	const file = path.join(dir, name);
+	fs.writeFileSync(
+		file,
+		zlib.gzipSync(Buffer.concat([...entries, Buffer.alloc(1024)])),
+	);
+	return file;
+};
+
+const packageEntries = [
+	tarEntry(
+		"package/package.json",
+		JSON.stringify({
+			name: "demo-plugin",
+			version: "1.0.0",
+			main: "index.mjs",
+		}),
+	),
+	tarEntry("package/index.mjs", pluginSource),
+];
+
+/**
+ * Writes a plugin directory with a zod-command-plugin.json manifest
+ */
+const writePlugin = (pluginDir: string, name: string, source: string) => {
+	fs.mkdirSync(pluginDir, { recursive: true });
+	fs.writeFileSync(path.join(pluginDir, "index.mjs"), source);
+	fs.writeFileSync(
+		path.join(pluginDir, "zod-command-plugin.json"),
+		JSON.stringify({ name, version: "1.0.0", main: "index.mjs" }),
+	);
+	return pluginDir;
+};
+
+const run = async (args: string[], options: CliOptions = { plugins: [] }) => {
+	const cli = new ZodCommand({ name: "app", version: "1.0.0" });
+	const result = await cli.execute(["node", "app", ...args], options);
+	if (!result.ok) {
+		throw result.error;
+	}
+	return result.data;
+};
+
+const stateDir = () => path.join(dir, "config", "app");
+const nodeModules = () => path.join(stateDir(), "plugins", "node_modules");
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-command-plugins-"));
+	savedEnv = { ...process.env };
+	process.env.XDG_CONFIG_HOME = path.join(dir, "config");
+	// Without npm on the PATH, tarballs are extracted by zod-command itself
+	process.env.PATH = path.join(dir, "bin");
+});
+
+afterEach(() => {
+	process.env = savedEnv;
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("plugins install", () => {
+	it("extracts a tarball and loads the plugin", async () => {
+		const tarball = writeTarball("demo.tgz", packageEntries);
+
+		expect(await run(["plugins", "install", tarball])).toBe(
+			"Installed plugin demo-plugin v1.0.0",
+		);
+		expect(
+			fs.readFileSync(
+				path.join(nodeModules(), "demo-plugin", "index.mjs"),
+				"utf-8",
+			),
+		).toBe(pluginSource);
+		expect(await run(["hello"])).toBe("hi");
+	});
+
+	it("rejects entries that escape the install directory", async () => {
+		const tarball = writeTarball("evil.tgz", [
+			...packageEntries,
+			tarEntry("package/../../../evil.js", "pwned"),
+		]);
+
+		await expect(run(["plugins", "install", tarball])).rejects.toThrow(
+			"Refusing to extract ../../../evil.js",
+		);
+		expect(fs.existsSync(path.join(stateDir(), "plugins", "evil.js"))).toBe(
+			false,
+		);
+	});
+
+	it("rejects long paths that escape the install directory", async () => {
+		const longPath = "package/../../../evil.js";
+		const record = ` path=${longPath}\n`;
+		const pax = `${record.length + String(record.length + 2).length}${record}`;
+		const tarball = writeTarball("evil.tgz", [
+			...packageEntries,
+			tarEntry("PaxHeader", pax, "x"),
+			tarEntry("package/ignored.js", "pwned"),
+		]);
+
+		await expect(run(["plugins", "install", tarball])).rejects.toThrow(
+			"Refusing to extract",
+		);
+	});
+
+	it("rejects package names that escape node_modules", async () => {
+		const tarball = writeTarball("evil.tgz", [
+			tarEntry(
+				"package/package.json",
+				JSON.stringify({ name: "../../evil", version: "1.0.0" }),
+			),
+		]);
+
+		await expect(run(["plugins", "install", tarball])).rejects.toThrow(
+			"invalid package name ../../evil",
+		);
+	});
+});
+
+describe("plugins commands", () => {
+	it("keep user commands of the same name", async () => {
+		const cli = new ZodCommand({ name: "app" });
+		cli
+			.add({ command: "plugins" })
+			.input(z.object({}))
+			.action(() => "mine");
+
+		const result = await cli.execute(["node", "app", "plugins"], {
+			plugins: [],
+		});
+
+		expect(result.ok && result.data).toBe("mine");
+	});
+});
+
+describe("plugins install with npm", () => {
+	/**
+	 * Puts an `npm` on the PATH that installs `fixture` as `installName` and
+	 * records it in package.json the way npm does for an alias
+	 */
+	const fakeNpm = (fixture: string, installName: string) => {
+		const bin = path.join(dir, "bin");
+		fs.mkdirSync(bin, { recursive: true });
+		fs.writeFileSync(
+			path.join(bin, "npm"),
+			`#!/bin/sh
+PATH=/usr/bin:/bin
+case "$1" in
+--version) echo 10.0.0 ;;
+install)
+	mkdir -p "$3/node_modules/${installName}"
+	cp -R "${fixture}/." "$3/node_modules/${installName}"
+	echo '{"private":true,"dependencies":{"${installName}":"npm:real-name@^1.0.0"}}' > "$3/package.json" ;;
+esac
+`,
+			{ mode: 0o755 },
+		);
+	};
+
+	it("installs under the name npm records for an alias", async () => {
+		const fixture = writePlugin(
+			path.join(dir, "fixture"),
+			"hello",
+			pluginSource,
+		);
+		fakeNpm(fixture, "alias-name");
+
+		expect(await run(["plugins", "install", "alias-name@npm:real-name"])).toBe(
+			"Installed plugin hello v1.0.0",
+		);
+		expect(
+			fs.existsSync(path.join(nodeModules(), "alias-name", "index.mjs")),
+		).toBe(true);
+		expect(await run(["hello"])).toBe("hi");
+	});
+
+	it("reports an invalid package as a CommandError and removes it", async () => {
+		const fixture = path.join(dir, "fixture");
+		fs.mkdirSync(fixture);
+		fakeNpm(fixture, "not-a-plugin");
+
+		await expect(
+			run(["plugins", "install", "not-a-plugin"]),
+		).rejects.toMatchObject({
+			code: "INVALID_PLUGIN",
+			message: expect.stringContaining("Cannot install not-a-plugin"),
+		});
+		expect(fs.existsSync(path.join(nodeModules(), "not-a-plugin"))).toBe(false);
+	});
+});
+
+describe("plugins uninstall", () => {
+	it("removes an installed plugin", async () => {
+		await run(["plugins", "install", writeTarball("demo.tgz", packageEntries)]);
+
+		expect(await run(["plugins", "uninstall", "demo-plugin"])).toBe(
+			"Uninstalled plugin demo-plugin",
+		);
+		expect(fs.existsSync(path.join(nodeModules(), "demo-plugin"))).toBe(false);
+	});
+
+	it("refuses to remove paths outside node_modules", async () => {
+		const outside = path.join(dir, "important");
+		fs.mkdirSync(outside);
+		fs.mkdirSync(stateDir(), { recursive: true });
+		fs.writeFileSync(
+			path.join(stateDir(), "plugins.json"),
+			JSON.stringify({
+				installed: { evil: { source: "evil", path: outside } },
+			}),
+		);
+
+		await expect(run(["plugins", "uninstall", "evil"])).rejects.toThrow(
+			"Refusing to remove",
+		);
+		expect(fs.existsSync(outside)).toBe(true);
+	});
+});
+
+describe("plugin loading", () => {
+	it("waits for async initialize before recording the plugin's commands", async () => {
+		const pluginDir = writePlugin(
+			path.join(dir, "async-plugin"),
+			"async-plugin",
+			pluginSource,
+		);
+
+		expect(
+			await run(["plugins", "info", "async-plugin"], { plugins: [pluginDir] }),
+		).toMatchObject({ enabled: true, commands: ["hello"] });
+	});
+
+	it("loads plugins once per Devtool", async () => {
+		const log = path.join(dir, "initialize.log");
+		const pluginDir = writePlugin(
+			path.join(dir, "counted-plugin"),
+			"counted-plugin",
+			`import fs from "node:fs";
+
+export default {
+	initialize() {
+		fs.appendFileSync(${JSON.stringify(log)}, "initialize\\n");
+	},
+};
+`,
+		);
+		const cli = new CliBuilder(new ConsoleLogger());
+		const devtool = new Devtool(cli, { plugins: [pluginDir] });
+
+		await devtool.initialize();
+		await devtool.execute(["node", "app", "plugins", "list"]);
+		await devtool.execute(["node", "app", "plugins", "list"]);
+
+		expect(fs.readFileSync(log, "utf-8")).toBe("initialize\n");
+	});
+
+	it("loads plugins listed under the plugins config key", async () => {
+		const project = path.join(dir, "project");
+		writePlugin(path.join(project, "tools", "hello"), "hello", pluginSource);
+		const configFile = path.join(project, "app.json");
+		fs.writeFileSync(
+			configFile,
+			JSON.stringify({ plugins: ["./tools/hello"] }),
+		);
+		const cli = new ZodCommand({ name: "app" }).configure({
+			schema: z.object({ plugins: z.array(z.string()).default([]) }),
+			configFiles: [configFile],
+		});
+
+		const result = await cli.execute(["node", "app", "hello"], { plugins: [] });
+
+		expect(result.ok && result.data).toBe("hi");
+	});
+
+	it("reads the plugins config key from the file passed with --config", async () => {
+		const project = path.join(dir, "project");
+		writePlugin(path.join(project, "tools", "hello"), "hello", pluginSource);
+		const configFile = path.join(project, "other.json");
+		fs.writeFileSync(
+			configFile,
+			JSON.stringify({ plugins: ["./tools/hello"] }),
+		);
+		const cli = new ZodCommand({ name: "app" }).configure({
+			schema: z.object({ plugins: z.array(z.string()).default([]) }),
+		});
+
+		const result = await cli.execute(
+			["node", "app", "hello", "--config", configFile],
+			{ plugins: [] },
+		);
+
+		expect(result.ok && result.data).toBe("hi");
+	});
+});
+
+describe("plugin discovery", () => {
+	/**
+	 * Writes an installed package whose plugin registers `command`
+	 */
+	const writePackage = (
+		name: string,
+		command: string,
+		packageJson: Record<string, unknown>,
+		entry = "index.mjs",
+	) => {
+		const packageDir = path.join(dir, "project", "node_modules", name);
+		fs.mkdirSync(path.dirname(path.join(packageDir, entry)), {
+			recursive: true,
+		});
+		fs.writeFileSync(
+			path.join(packageDir, entry),
+			pluginSource.replace('"hello"', JSON.stringify(command)),
+		);
+		fs.writeFileSync(
+			path.join(packageDir, "package.json"),
+			JSON.stringify({ name, version: "1.0.0", ...packageJson }),
+		);
+	};
+
+	const discover = async () => {
+		const project = path.join(dir, "project", "packages", "app");
+		fs.mkdirSync(project, { recursive: true });
+		vi.spyOn(process, "cwd").mockReturnValue(project);
+		try {
+			return (await run(["plugins", "list"], {
+				plugins: [],
+				discoverPlugins: true,
+			})) as { name: string; commands: string }[];
+		} finally {
+			vi.restoreAllMocks();
+		}
+	};
+
+	it("loads packages named zod-command-plugin-* in name order", async () => {
+		writePackage("zod-command-plugin-beta", "beta", { main: "index.mjs" });
+		writePackage("@acme/zod-command-plugin-alpha", "alpha", {
+			main: "index.mjs",
+		});
+		writePackage("unrelated", "unrelated", { main: "index.mjs" });
+
+		expect(
+			(await discover()).map(({ name, commands }) => [name, commands]),
+		).toEqual([
+			["@acme/zod-command-plugin-alpha", "alpha"],
+			["zod-command-plugin-beta", "beta"],
+		]);
+	});
+
+	it("loads packages with a zod-command key in their package.json", async () => {
+		writePackage(
+			"acme-tools",
+			"tools",
+			{ "zod-command": { name: "tools", main: "plugin/entry.mjs" } },
+			"plugin/entry.mjs",
+		);
+
+		expect(await discover()).toMatchObject([
+			{ name: "tools", commands: "tools" },
+		]);
+	});
+
+	it("resolves the entry point through exports", async () => {
+		writePackage(
+			"zod-command-plugin-exported",
+			"exported",
+			{
+				main: "missing.js",
+				exports: {
+					".": { types: "./index.d.ts", import: "./lib/plugin.mjs" },
+				},
+			},
+			"lib/plugin.mjs",
+		);
+
+		expect(await discover()).toMatchObject([
+			{ name: "zod-command-plugin-exported", commands: "exported" },
+		]);
+	});
+});
+
+describe("shutdown hooks", () => {
+	it("run after every execute call on the same Devtool", async () => {
+		const log = path.join(dir, "shutdowns.log");
+		const pluginDir = writePlugin(
+			path.join(dir, "shutdown-plugin"),
+			"shutdown-plugin",
+			`import fs from "node:fs";
+
+export default {
+	initialize() {},
+	shutdown() {
+		fs.appendFileSync(${JSON.stringify(log)}, "shutdown\\n");
+	},
+};
+`,
+		);
+		const cli = new CliBuilder(new ConsoleLogger());
+		cli.setMetadata({ name: "app", version: "1.0.0" });
+		const devtool = new Devtool(cli, { plugins: [pluginDir] });
+
+		await devtool.execute(["node", "app", "plugins", "list"]);
+		await devtool.execute(["node", "app", "plugins", "list"]);
+
+		expect(fs.readFileSync(log, "utf-8")).toBe("shutdown\nshutdown\n");
+	});
+});
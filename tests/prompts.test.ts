@@ -0,0 +1,172 @@
+// @vitest-environment node
+import { PassThrough } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CliOptions,
+	ConsoleLogger,
+	Devtool,
+	type Prompter,
+	ReadlinePrompter,
+	UserAbortError,
+	fieldMeta,
+} from "../src/index";
+
+/**
+ * A prompter reading `typed` and the text it wrote
+ */
+const createPrompter = (typed: string) => {
+	const input = new PassThrough();
+	const output = new PassThrough();
+	let written = "";
+	output.on("data", (chunk) => {
+		written += chunk;
+	});
+	input.end(typed);
+	return {
+		prompter: new ReadlinePrompter(input, output),
+		written: () => written,
+	};
+};
+
+describe("ReadlinePrompter", () => {
+	it("asks the question and returns the answer", async () => {
+		const { prompter, written } = createPrompter("Ada\n");
+
+		expect(await prompter.text("Name")).toBe("Ada");
+		expect(written()).toContain("Name: ");
+	});
+
+	it("does not echo passwords", async () => {
+		const { prompter, written } = createPrompter("s3cret\n");
+
+		expect(await prompter.password("Password")).toBe("s3cret");
+		expect(written()).toContain("Password: ");
+		expect(written()).not.toContain("s3cret");
+	});
+
+	it("rejects with a UserAbortError when the input ends", async () => {
+		const { prompter } = createPrompter("");
+
+		await expect(prompter.text("Name")).rejects.toBeInstanceOf(UserAbortError);
+	});
+});
+
+/**
+ * A prompter answering from `answers` and recording the prompts it was given
+ */
+const createStubPrompter = (answers: Record<string, unknown>) => {
+	const calls: string[] = [];
+	const answer = (kind: string) => (message: string) => {
+		calls.push(`${kind} ${message}`);
+		return Promise.resolve(answers[message] as never);
+	};
+	const prompter: Prompter = {
+		text: answer("text"),
+		password: answer("password"),
+		confirm: answer("confirm"),
+		select: (message, choices) => {
+			calls.push(`select ${message} ${choices.join("|")}`);
+			return Promise.resolve(answers[message] as string);
+		},
+		multiSelect: answer("multiSelect"),
+	};
+	return { prompter, calls };
+};
+
+describe("interactive prompts", () => {
+	let received: unknown;
+
+	const createCli = (interactive?: boolean) => {
+		const cli = new CliBuilder(new ConsoleLogger());
+		cli
+			.add({ command: "login" })
+			.input(
+				z.object({
+					username: z.string().describe("Username"),
+					password: fieldMeta(z.string(), { secret: true }),
+					region: z.enum(["us", "eu"]),
+					remember: z.boolean().optional(),
+				}),
+			)
+			.meta(interactive === undefined ? {} : { interactive })
+			.action(({ parsedInput }) => {
+				received = parsedInput;
+			});
+		return cli;
+	};
+
+	const login = (args: string[], cli = createCli(), options?: CliOptions) =>
+		new Devtool(cli, options).run(["node", "app", "login", ...args]);
+
+	beforeEach(() => {
+		received = undefined;
+		vi.spyOn(console, "log").mockImplementation(() => undefined);
+		vi.spyOn(console, "error").mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		process.exitCode = undefined;
+	});
+
+	it("asks for missing required fields only", async () => {
+		const { prompter, calls } = createStubPrompter({
+			"Username (username)": "ada",
+			password: "s3cret",
+			region: "eu",
+		});
+
+		await login(["--region", "us"], createCli(), { prompter });
+
+		expect(calls).toEqual(["text Username (username)", "password password"]);
+		expect(received).toEqual({
+			username: "ada",
+			password: "s3cret",
+			region: "us",
+		});
+	});
+
+	it("asks for enums with their choices", async () => {
+		const { prompter, calls } = createStubPrompter({ region: "eu" });
+
+		await login(["--username", "ada", "--password", "s3cret"], createCli(), {
+			prompter,
+		});
+
+		expect(calls).toEqual(["select region us|eu"]);
+		expect(received).toEqual({
+			username: "ada",
+			password: "s3cret",
+			region: "eu",
+		});
+	});
+
+	it("asks again until the answer is valid", async () => {
+		const answers = ["mars", "eu"];
+		const { prompter } = createStubPrompter({});
+		prompter.select = () => Promise.resolve(answers.shift() as string);
+
+		await login(["--username", "ada", "--password", "s3cret"], createCli(), {
+			prompter,
+		});
+
+		expect(answers).toEqual([]);
+		expect(received).toMatchObject({ region: "eu" });
+	});
+
+	it.each([
+		["--no-interactive", ["--no-interactive"], undefined, undefined],
+		["interactive: false in run", [], undefined, false],
+		["interactive: false in meta", [], false, undefined],
+	])("does not prompt with %s", async (_, args, meta, interactive) => {
+		const { prompter, calls } = createStubPrompter({});
+
+		await login(args, createCli(meta), { prompter, interactive });
+
+		expect(calls).toEqual([]);
+		expect(received).toBeUndefined();
+		expect(process.exitCode).toBe(2);
+	});
+});
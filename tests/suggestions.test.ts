@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	CliBuilder,
+	type CliOptions,
+	ConsoleLogger,
+	Devtool,
+	UnknownCommandError,
+	UnknownOptionError,
+} from "../src/index";
+
+const createCli = () => {
+	const cli = new CliBuilder(new ConsoleLogger());
+	cli
+		.add({ command: "deploy" })
+		.aliases(["ship"])
+		.input(
+			z.object({
+				target: z.string().default("production"),
+				db: z.object({ host: z.string() }).optional(),
+			}),
+		)
+		.action(({ parsedInput }) => parsedInput);
+	cli
+		.add({ command: "user:create" })
+		.input(z.object({ name: z.string() }))
+		.action(() => undefined);
+	cli
+		.add({ command: "internal:sync" })
+		.input(z.object({}))
+		.meta({ hidden: true })
+		.action(() => undefined);
+	return cli;
+};
+
+const execute = (args: string[], options?: CliOptions) =>
+	new Devtool(createCli(), options).execute(["node", "app", ...args]);
+
+const errorOf = async (args: string[], options?: CliOptions) => {
+	const result = await execute(args, options);
+	return result.ok ? undefined : result.error;
+};
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	process.exitCode = undefined;
+});
+
+describe("unknown commands", () => {
+	it("suggests the closest command names", async () => {
+		const error = await errorOf(["deplyo"]);
+
+		expect(error).toBeInstanceOf(UnknownCommandError);
+		expect((error as UnknownCommandError).suggestions).toEqual(["deploy"]);
+		expect(error?.message).toBe(
+			'Unknown command: deplyo. Did you mean "deploy"?',
+		);
+	});
+
+	it("suggests subcommands and aliases in their typed form", async () => {
+		expect(
+			((await errorOf(["user", "craete"])) as UnknownCommandError).suggestions,
+		).toEqual(["user create"]);
+		expect(
+			((await errorOf(["shp"])) as UnknownCommandError).suggestions,
+		).toEqual(["ship"]);
+	});
+
+	it("does not suggest hidden commands", async () => {
+		expect(
+			((await errorOf(["internal", "snyc"])) as UnknownCommandError)
+				.suggestions,
+		).toEqual([]);
+	});
+
+	it("points to help instead of printing it when there are suggestions", async () => {
+		const error = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+		const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+		await new Devtool(createCli()).run(["node", "app", "deplyo"]);
+
+		expect(error.mock.calls.join("\n")).toContain('Did you mean "deploy"?');
+		expect(log.mock.calls.join("\n")).toContain("Run 'cli help'");
+	});
+});
+
+describe("unknown options", () => {
+	it("rejects them with suggestions in error mode", async () => {
+		const error = await errorOf(["deploy", "--taget", "staging"], {
+			unknownFlags: "error",
+		});
+
+		expect(error).toBeInstanceOf(UnknownOptionError);
+		expect((error as UnknownOptionError).suggestions).toEqual({
+			taget: ["target"],
+		});
+		expect(error?.message).toBe(
+			'Unknown option: --taget. Did you mean "--target"?',
+		);
+	});
+
+	it("suggests nested fields by their dotted path", async () => {
+		const error = await errorOf(["deploy", "--db.hots", "x"], {
+			unknownFlags: "error",
+		});
+
+		expect((error as UnknownOptionError).suggestions).toEqual({
+			"db.hots": ["db.host"],
+		});
+	});
+
+	it("warns and runs the command by default", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+		const result = await execute(["deploy", "--taget", "staging"]);
+
+		expect(result.ok).toBe(true);
+		expect(warn.mock.calls.join("\n")).toContain(
+			'Unknown option: --taget. Did you mean "--target"?',
+		);
+	});
+
+	it("says nothing in ignore mode", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+		const result = await execute(["deploy", "--taget", "staging"], {
+			unknownFlags: "ignore",
+		});
+
+		expect(result.ok).toBe(true);
+		expect(warn).not.toHaveBeenCalled();
+	});
+});